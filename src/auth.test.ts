@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getAuthConfig, loadProfiles } from './auth';
+
+describe('loadProfiles', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'kazibee-profiles-test-'));
+    file = join(dir, 'profiles.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('resolves a relative userDataDir against the profiles file, not the cwd', () => {
+    writeFileSync(file, JSON.stringify({ staging: { port: 9223, userDataDir: 'data/staging' } }));
+    const before = process.cwd();
+    try {
+      process.chdir(tmpdir());
+      expect(loadProfiles({ CHROME_PROFILES_FILE: file }).staging.userDataDir).toBe(join(dir, 'data', 'staging'));
+    } finally {
+      process.chdir(before);
+    }
+  });
+
+  test('expands ~ and keeps absolute paths', () => {
+    writeFileSync(
+      file,
+      JSON.stringify({
+        home: { port: 9223, userDataDir: '~/chrome-home' },
+        abs: { port: 9224, userDataDir: '/var/chrome-abs' },
+      }),
+    );
+    const profiles = loadProfiles({ CHROME_PROFILES_FILE: file });
+    expect(profiles.home.userDataDir).toBe(join(homedir(), 'chrome-home'));
+    expect(profiles.abs.userDataDir).toBe('/var/chrome-abs');
+  });
+
+  test('defaults the userDataDir per profile name', () => {
+    writeFileSync(file, JSON.stringify({ qa: { port: 9225 } }));
+    expect(getAuthConfig({ CHROME_PROFILE: 'qa', CHROME_PROFILES_FILE: file })).toMatchObject({
+      profile: 'qa',
+      remoteDebuggingPort: 9225,
+      userDataDir: join(homedir(), '.profiles', 'kazibee-qa'),
+    });
+  });
+});
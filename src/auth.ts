@@ -1,6 +1,8 @@
-import { existsSync } from 'node:fs';
+import { existsSync, readFileSync } from 'node:fs';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { dirname, join, resolve } from 'node:path';
+import type { LabelsCacheMode } from './labels-cache';
+import type { VisionProviderName } from './vision-provider';
 
 export interface Env {
   GEMINI_API_KEY?: string;
@@ -10,30 +12,153 @@ export interface Env {
   CHROME_REMOTE_DEBUGGING_PORT?: string;
   CHROME_CDP_URL?: string;
   CHROME_AUTO_LAUNCH?: string;
+  CHROME_PERSISTENT_BRIDGE?: string;
+  CHROME_PROFILE?: string;
+  CHROME_PROFILES_FILE?: string;
+  VISION_PROVIDER?: string;
+  VISION_MODEL?: string;
+  OPENAI_API_BASE?: string;
+  OPENAI_API_KEY?: string;
+  CHROME_LABELS_CACHE?: string;
+  CHROME_LABELS_CACHE_TTL_MS?: string;
+  CHROME_LABELS_CACHE_MAX_ENTRIES?: string;
+  CHROME_NEAR_DUPLICATE_THRESHOLD?: string;
+  CHROME_HAR_REPLAY?: string;
+  CHROME_CREDENTIALS_FILE?: string;
+  CHROME_CREDENTIALS_PASSPHRASE?: string;
+}
+
+/** One named entry in the profile registry file. */
+export interface ProfileConfig {
+  port: number;
+  userDataDir: string;
+  headless?: boolean;
+  args?: string[];
 }
 
 export interface AuthConfig {
   geminiApiKey?: string;
+  visionProvider: VisionProviderName;
+  visionModel?: string;
+  openaiApiBase: string;
+  openaiApiKey?: string;
+  labelsCache: LabelsCacheMode;
+  labelsCacheTtlMs: number;
+  labelsCacheMaxEntries: number;
+  nearDuplicateThreshold: number;
+  /** HAR file every request is served from instead of the network (`CHROME_HAR_REPLAY`). */
+  harReplay?: string;
+  /** Encrypted credential vault (`CHROME_CREDENTIALS_FILE`, default `~/.profiles/kazibee-credentials.vault`). */
+  credentialsFile: string;
+  /** Passphrase the vault is encrypted with (`CHROME_CREDENTIALS_PASSPHRASE`). */
+  credentialsPassphrase?: string;
   chromePath: string;
   userDataDir?: string;
   headless: boolean;
   remoteDebuggingPort: number;
   cdpUrl?: string;
   autoLaunch: boolean;
+  persistentBridge: boolean;
+  profile?: string;
+  extraArgs: string[];
 }
 
 export function getAuthConfig(env: Env): AuthConfig {
-  return {
+  const profileName = env.CHROME_PROFILE?.trim();
+  const base: AuthConfig = {
     geminiApiKey: env.GEMINI_API_KEY?.trim() || undefined,
+    visionProvider: parseVisionProvider(env.VISION_PROVIDER),
+    visionModel: env.VISION_MODEL?.trim() || undefined,
+    openaiApiBase: env.OPENAI_API_BASE?.trim() || 'http://127.0.0.1:11434/v1',
+    openaiApiKey: env.OPENAI_API_KEY?.trim() || undefined,
+    labelsCache: parseLabelsCacheMode(env.CHROME_LABELS_CACHE),
+    labelsCacheTtlMs: parsePositiveInt(env.CHROME_LABELS_CACHE_TTL_MS, 10 * 60_000),
+    labelsCacheMaxEntries: parsePositiveInt(env.CHROME_LABELS_CACHE_MAX_ENTRIES, 200),
+    // Opt-in: a menu or toast changes few cells, and reuse would hide the element it just revealed.
+    nearDuplicateThreshold: parseFraction(env.CHROME_NEAR_DUPLICATE_THRESHOLD, 0),
+    harReplay: env.CHROME_HAR_REPLAY?.trim() ? resolve(expandHome(env.CHROME_HAR_REPLAY.trim())) : undefined,
+    credentialsFile: env.CHROME_CREDENTIALS_FILE?.trim()
+      ? resolve(expandHome(env.CHROME_CREDENTIALS_FILE.trim()))
+      : join(homedir(), '.profiles', 'kazibee-credentials.vault'),
+    credentialsPassphrase: env.CHROME_CREDENTIALS_PASSPHRASE || undefined,
     chromePath: resolveChromePath(env.CHROME_PATH),
     userDataDir: resolveUserDataDir(env.CHROME_USER_DATA_DIR),
     headless: parseBool(env.CHROME_HEADLESS),
     remoteDebuggingPort: parsePort(env.CHROME_REMOTE_DEBUGGING_PORT, 9222),
     cdpUrl: env.CHROME_CDP_URL?.trim() || undefined,
     autoLaunch: env.CHROME_AUTO_LAUNCH ? parseBool(env.CHROME_AUTO_LAUNCH) : true,
+    persistentBridge: env.CHROME_PERSISTENT_BRIDGE ? parseBool(env.CHROME_PERSISTENT_BRIDGE) : true,
+    extraArgs: [],
+  };
+  if (!profileName) return base;
+
+  const profiles = loadProfiles(env);
+  const profile = profiles[profileName];
+  if (!profile) {
+    const known = Object.keys(profiles).join(', ') || 'none';
+    throw new Error(`Unknown Chrome profile "${profileName}" in ${resolveProfilesFile(env)} (known: ${known}).`);
+  }
+
+  return {
+    ...base,
+    profile: profileName,
+    userDataDir: profile.userDataDir,
+    headless: profile.headless ?? base.headless,
+    remoteDebuggingPort: profile.port,
+    // A profile owns its port, so a global CDP override would point at the wrong daemon.
+    cdpUrl: undefined,
+    extraArgs: profile.args ?? [],
   };
 }
 
+/** Reads the profile registry (`CHROME_PROFILES_FILE`, default `~/.profiles/kazibee-profiles.json`). */
+export function loadProfiles(env: Env): Record<string, ProfileConfig> {
+  const path = resolveProfilesFile(env);
+  if (!existsSync(path)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to parse Chrome profiles file ${path}: ${String(error)}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Chrome profiles file ${path} must contain a JSON object of named profiles.`);
+  }
+
+  const profiles: Record<string, ProfileConfig> = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const port = parsePort(entry.port === undefined ? undefined : String(entry.port), 0);
+    if (!port) {
+      throw new Error(`Chrome profile "${name}" in ${path} needs a valid "port".`);
+    }
+    const userDataDir = typeof entry.userDataDir === 'string' ? entry.userDataDir.trim() : '';
+    profiles[name] = {
+      port,
+      // Relative to the profiles file, so the daemon's cwd never changes which directory a profile uses.
+      userDataDir: userDataDir
+        ? resolve(dirname(path), expandHome(userDataDir))
+        : join(homedir(), '.profiles', `kazibee-${name}`),
+      headless: typeof entry.headless === 'boolean' ? entry.headless : undefined,
+      args: Array.isArray(entry.args) ? entry.args.map((arg) => String(arg)).filter(Boolean) : undefined,
+    };
+  }
+  return profiles;
+}
+
+function resolveProfilesFile(env: Env): string {
+  const configured = env.CHROME_PROFILES_FILE?.trim();
+  if (configured) return resolve(expandHome(configured));
+  return join(homedir(), '.profiles', 'kazibee-profiles.json');
+}
+
+function expandHome(path: string): string {
+  if (path === '~') return homedir();
+  if (path.startsWith('~/')) return join(homedir(), path.slice(2));
+  return path;
+}
+
 function resolveChromePath(explicitPath?: string): string {
   const configuredPath = explicitPath?.trim();
   if (configuredPath) return configuredPath;
@@ -64,6 +189,35 @@ function parsePort(value: string | undefined, defaultPort: number): number {
   return parsed;
 }
 
+function parsePositiveInt(value: string | undefined, defaultValue: number): number {
+  if (!value) return defaultValue;
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed <= 0) return defaultValue;
+  return parsed;
+}
+
+function parseFraction(value: string | undefined, defaultValue: number): number {
+  if (!value) return defaultValue;
+  const parsed = Number.parseFloat(value);
+  if (Number.isNaN(parsed) || parsed < 0 || parsed > 1) return defaultValue;
+  return parsed;
+}
+
+/** Unknown names fail here instead of silently falling back to Gemini and failing later on a missing key. */
+function parseVisionProvider(value?: string): VisionProviderName {
+  const name = value?.trim().toLowerCase();
+  if (!name) return 'gemini';
+  if (name === 'gemini' || name === 'openai') return name;
+  throw new Error(`Unknown VISION_PROVIDER "${value}" (expected "gemini" or "openai"; use "openai" for vLLM and Ollama).`);
+}
+
+function parseLabelsCacheMode(value?: string): LabelsCacheMode {
+  const mode = value?.trim().toLowerCase();
+  if (mode === 'memory' || mode === 'off') return mode;
+  if (mode && ['0', 'false', 'no'].includes(mode)) return 'off';
+  return 'disk';
+}
+
 function resolveUserDataDir(explicitDir?: string): string {
   const configured = explicitDir?.trim();
   if (configured) return configured;
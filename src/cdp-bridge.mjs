@@ -1,11 +1,55 @@
+import { createDecipheriv, scryptSync } from 'node:crypto';
+import {
+  chmodSync,
+  closeSync,
+  existsSync,
+  fstatSync,
+  openSync,
+  readFileSync,
+  readSync,
+  realpathSync,
+  unlinkSync,
+  writeFileSync,
+  writeSync,
+} from 'node:fs';
+import { connect, createServer } from 'node:net';
+import { pathToFileURL } from 'node:url';
 import { chromium } from 'playwright';
 import sharp from 'sharp';
 
-const CELL_SIZE = 100;
+const DEFAULT_CELL_SIZE = 100;
+const MIN_CELL_SIZE = 20;
+const MAX_CELL_SIZE = 1000;
 const LABEL_MARGIN = 50;
 const DEFAULT_WAIT_TIMEOUT_MS = 30_000;
+const SERVER_IDLE_TIMEOUT_MS = 10 * 60_000;
+const SERVER_RECONNECT_ATTEMPTS = 3;
+const DEFAULT_CAPTURE_DURATION_MS = 5_000;
+const MAX_CAPTURE_DURATION_MS = 60_000;
+const DEFAULT_CAPTURE_BODY_BYTES = 1024 * 1024;
+// Extra time a body may take past the capture window, so responses that arrive at the very end keep theirs.
+const CAPTURE_BODY_GRACE_MS = 1_000;
+const CONSOLE_LOG_LIMIT = 500;
+const CONSOLE_LOG_LEVELS = ['debug', 'info', 'warning', 'error'];
+// Fields whose contents must never reach a screenshot or a scan: password inputs and credential-filled fields.
+const SECRET_FIELD_SELECTOR = 'input[type="password" i], [data-kazibee-credential]';
+// Ops that only read page state; the server may replay these after a reconnect without repeating side effects.
+const READ_ONLY_OPS = new Set([
+  'scanZones',
+  'extract',
+  'accessibilitySnapshot',
+  'gridScreenshot',
+  'markedScreenshot',
+  'getConsoleLogs',
+  'exportState',
+]);
 
 async function main() {
+  if (process.argv[2] === '--serve') {
+    await serve(JSON.parse(process.argv[3] || '{}'));
+    return;
+  }
+
   const raw = process.argv[2];
   if (!raw) throw new Error('Missing bridge task payload.');
 
@@ -14,82 +58,1086 @@ async function main() {
   const payload = task.payload || {};
   if (!cdpUrl) throw new Error('Missing cdpUrl in bridge payload.');
 
+  const browser = await connectBrowser(cdpUrl);
+  try {
+    const result = await runOp(requireContext(browser), payload);
+    process.stdout.write(JSON.stringify(result));
+  } finally {
+    await browser.close();
+  }
+}
+
+async function connectBrowser(cdpUrl) {
   const version = await fetchJson(`${cdpUrl.replace(/\/$/, '')}/json/version`);
   const wsEndpoint = version.webSocketDebuggerUrl || cdpUrl;
+  return chromium.connectOverCDP(wsEndpoint, { timeout: 12000 });
+}
+
+function requireContext(browser) {
+  const context = browser.contexts()[0];
+  if (!context) throw new Error('No browser context available over CDP.');
+  return context;
+}
 
-  const browser = await chromium.connectOverCDP(wsEndpoint, { timeout: 12000 });
+async function runOp(context, input) {
+  const payload = await withCurrentTab(context, input);
+  watchContextLogs(context);
+  await applyHarReplay(context, payload.harReplay);
+  await applyNetworkRules(context, payload.networkRules);
+  await syncHarRecorder(context, payload.harRecording);
   try {
-    const context = browser.contexts()[0];
-    if (!context) throw new Error('No browser context available over CDP.');
+    return await dispatchOp(context, payload);
+  } finally {
+    await flushHarRecorder(context);
+  }
+}
 
-    const op = payload.op;
-    let result = {};
+async function dispatchOp(context, payload) {
+  const op = payload.op;
 
-    if (op === 'navigate') {
-      const page = await getOrCreatePage(context, Boolean(payload.newWindow));
-      await page.goto(String(payload.url || ''), {
-        waitUntil: normalizeLoadState(payload.waitUntil),
-        timeout: normalizeTimeoutMsOrUndefined(payload.timeoutMs),
-      });
-      result = { ok: true };
-    } else if (op === 'execute') {
-      const page = await getOrCreatePage(context, false);
-      await runExecute(page, payload.action || {});
-      result = { ok: true };
-    } else if (op === 'scanZones') {
-      const page = await getOrCreatePage(context, false);
-      await waitForOptionalLoadState(page, payload.waitUntil, payload.timeoutMs);
-      const zones = await runScanZones(page, payload.zones || [], normalizeCoordinateSpace(payload.coordinateSpace));
-      result = { zones };
-    } else if (op === 'gridScreenshot') {
-      const page = await getOrCreatePage(context, false);
-      await waitForOptionalLoadState(page, payload.waitUntil, payload.timeoutMs);
-      const image = await runGridScreenshot(page, payload.start, payload.end, Boolean(payload.fullPage));
-      result = { imageBase64: image.toString('base64') };
-    } else {
-      throw new Error(`Unsupported bridge op: ${String(op)}`);
+  if (op === 'syncHarRecording') {
+    return { ok: true, recording: contextHarRecorders.get(context)?.path ?? null };
+  }
+
+  if (op === 'navigate') {
+    const page = await getOrCreatePage(context, Boolean(payload.newWindow), payload.tabId);
+    await page.goto(String(payload.url || ''), {
+      waitUntil: normalizeLoadState(payload.waitUntil),
+      timeout: normalizeTimeoutMsOrUndefined(payload.timeoutMs),
+    });
+    return { ok: true, tabId: await getPageTargetId(context, page) };
+  }
+
+  if (op === 'execute') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    try {
+      return { ok: true, ...(await runAction(page, payload.action || {})) };
+    } catch (error) {
+      throw withConsoleErrors(error, page, payload.attachConsoleErrors);
     }
+  }
 
-    process.stdout.write(JSON.stringify(result));
-  } finally {
-    await browser.close();
+  if (op === 'getConsoleLogs') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    return readConsoleLogs(page, payload);
+  }
+
+  if (op === 'executeSequence') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    return runExecuteSequence(page, payload.actions, {
+      stopOnError: payload.stopOnError !== false,
+      screenshotOnError: Boolean(payload.screenshotOnError),
+    });
+  }
+
+  if (op === 'scanZones') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    await waitForOptionalLoadState(page, payload.waitUntil, payload.timeoutMs);
+    const zones = await runScanZones(
+      page,
+      payload.zones || [],
+      normalizeCoordinateSpace(payload.coordinateSpace),
+      normalizeGridOptions(payload),
+    );
+    return { zones };
+  }
+
+  if (op === 'extract') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    await waitForOptionalLoadState(page, payload.waitUntil, payload.timeoutMs);
+    return runExtract(page, payload);
+  }
+
+  if (op === 'accessibilitySnapshot') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    await waitForOptionalLoadState(page, payload.waitUntil, payload.timeoutMs);
+    return runAccessibilitySnapshot(context, page, payload);
+  }
+
+  if (op === 'gridScreenshot') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    await waitForOptionalLoadState(page, payload.waitUntil, payload.timeoutMs);
+    const { image, grid } = await runGridScreenshot(
+      page,
+      payload.start,
+      payload.end,
+      Boolean(payload.fullPage),
+      normalizeGridOptions(payload),
+    );
+    return { imageBase64: image.toString('base64'), grid, tabId: await getPageTargetId(context, page) };
+  }
+
+  if (op === 'captureResponses') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    return runCaptureResponses(page, payload);
+  }
+
+  if (op === 'markedScreenshot') {
+    const page = await getOrCreatePage(context, false, payload.tabId);
+    await waitForOptionalLoadState(page, payload.waitUntil, payload.timeoutMs);
+    const marked = await runMarkedScreenshot(
+      page,
+      payload.zone,
+      normalizeCoordinateSpace(payload.coordinateSpace),
+      normalizeGridOptions(payload),
+    );
+    return { ...marked, tabId: await getPageTargetId(context, page) };
+  }
+
+  if (op === 'exportState') {
+    return runExportState(context, payload.origins);
+  }
+
+  if (op === 'importState') {
+    return runImportState(context, payload.state || {});
+  }
+
+  if (op === 'clearState') {
+    return runClearState(context, payload.origins);
+  }
+
+  throw new Error(`Unsupported bridge op: ${String(op)}`);
+}
+
+/**
+ * Long-lived bridge server. Keeps one CDP connection open and answers newline-delimited
+ * JSON-RPC 2.0 requests on a local socket, so page handles survive between calls.
+ */
+async function serve(options) {
+  const cdpUrl = String(options.cdpUrl || '').trim();
+  const socketPath = String(options.socketPath || '').trim();
+  if (!cdpUrl) throw new Error('Missing cdpUrl for bridge server.');
+  if (!socketPath) throw new Error('Missing socketPath for bridge server.');
+
+  if (await isSocketListening(socketPath)) {
+    // Another server won the startup race; let it handle requests.
+    return;
+  }
+  if (process.platform !== 'win32' && existsSync(socketPath)) {
+    unlinkSync(socketPath);
   }
+
+  let browser = null;
+  let queue = Promise.resolve();
+  let idleTimer = null;
+
+  const ensureBrowser = async () => {
+    if (browser && browser.isConnected()) return browser;
+    browser = null;
+
+    let lastError;
+    for (let attempt = 1; attempt <= SERVER_RECONNECT_ATTEMPTS; attempt += 1) {
+      try {
+        const connected = await connectBrowser(cdpUrl);
+        connected.on('disconnected', () => {
+          if (browser === connected) browser = null;
+        });
+        browser = connected;
+        return connected;
+      } catch (error) {
+        lastError = error;
+        await sleep(500 * attempt);
+      }
+    }
+    throw lastError || new Error(`Unable to connect to Chrome CDP at ${cdpUrl}.`);
+  };
+
+  const handle = async (payload) => {
+    const connected = await ensureBrowser();
+    try {
+      return await runOp(requireContext(connected), payload);
+    } catch (error) {
+      if (connected.isConnected() || !isRecoverableScanError(error) || !isReadOnlyOp(payload)) throw error;
+      // Chrome went away mid-call; reconnect once and replay the read-only request.
+      return runOp(requireContext(await ensureBrowser()), payload);
+    }
+  };
+
+  const shutdown = async () => {
+    server.close();
+    if (browser) await browser.close().catch(() => {});
+    if (process.platform !== 'win32' && existsSync(socketPath)) unlinkSync(socketPath);
+    process.exit(0);
+  };
+
+  const touch = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => void shutdown(), SERVER_IDLE_TIMEOUT_MS);
+  };
+
+  const server = createServer((socket) => {
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('error', () => {});
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+        if (!line) continue;
+
+        touch();
+        queue = queue.then(async () => {
+          const response = await respond(line);
+          if (!socket.destroyed) socket.write(`${JSON.stringify(response)}\n`);
+          touch();
+        });
+      }
+    });
+  });
+
+  const respond = async (line) => {
+    let request;
+    try {
+      request = JSON.parse(line);
+    } catch (error) {
+      return { jsonrpc: '2.0', id: null, error: { code: -32700, message: `Parse error: ${String(error)}` } };
+    }
+
+    const id = request.id ?? null;
+    const method = String(request.method || '');
+    try {
+      if (method === 'ping') return { jsonrpc: '2.0', id, result: { ok: true, pid: process.pid } };
+      if (method === 'shutdown') {
+        setImmediate(() => void shutdown());
+        return { jsonrpc: '2.0', id, result: { ok: true } };
+      }
+      const result = await handle({ ...(request.params || {}), op: method });
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: { code: -32000, message: String(error instanceof Error && error.stack ? error.stack : error) },
+      };
+    }
+  };
+
+  process.on('SIGTERM', () => void shutdown());
+  process.on('SIGINT', () => void shutdown());
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => resolve(undefined));
+  });
+  // The socket is unauthenticated; only the owning user may connect.
+  if (process.platform !== 'win32') chmodSync(socketPath, 0o600);
+  touch();
+}
+
+/** True when replaying `payload` cannot repeat a click, navigation or state change that already reached Chrome. */
+function isReadOnlyOp(payload) {
+  if (payload.op === 'captureResponses') return !payload.action;
+  return READ_ONLY_OPS.has(payload.op);
+}
+
+async function isSocketListening(socketPath) {
+  return new Promise((resolve) => {
+    const socket = connect(socketPath);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
 }
 
-async function getOrCreatePage(context, forceNew) {
+async function getOrCreatePage(context, forceNew, tabId) {
   if (forceNew) {
     return context.newPage();
   }
+  const targetId = normalizeOptionalString(tabId);
+  if (targetId) {
+    return findPageByTargetId(context, targetId);
+  }
   const pages = context.pages();
   return pages.find((page) => page.url() !== 'about:blank' && page.url() !== 'chrome://newtab/') || pages[0] || context.newPage();
 }
 
-async function runExecute(page, action) {
+const pageTargetIds = new WeakMap();
+// Routes this connection installed per context, keyed by the rules they were built from.
+const contextNetworkRoutes = new WeakMap();
+
+/**
+ * Installs the client's persistent network rules on the context, replacing the routes from an
+ * earlier rule set. Rules are matched in order: the first `block` or `fulfill` rule wins, and
+ * `setHeaders` rules add their headers and let later rules (or the network) handle the request.
+ */
+async function applyNetworkRules(context, rules) {
+  const list = Array.isArray(rules) ? rules : [];
+  const key = JSON.stringify(list);
+  const installed = contextNetworkRoutes.get(context);
+  if ((installed?.key ?? '[]') === key) return;
+
+  for (const { pattern, handler } of installed?.routes ?? []) {
+    await context.unroute(pattern, handler).catch(() => {});
+  }
+
+  // Playwright runs the most recently added route first, so add the rules last to first.
+  const routes = [];
+  for (const rule of [...list].reverse()) {
+    const pattern = String(rule?.urlPattern || '').trim();
+    if (!pattern) throw new Error('Network rules require a urlPattern.');
+    const handler = networkRuleHandler(rule);
+    await context.route(pattern, handler);
+    routes.push({ pattern, handler });
+  }
+  contextNetworkRoutes.set(context, { key, routes });
+}
+
+function networkRuleHandler(rule) {
+  const resourceTypes = Array.isArray(rule.resourceTypes) ? rule.resourceTypes.map(String) : [];
+  return async (route) => {
+    const request = route.request();
+    if (resourceTypes.length && !resourceTypes.includes(request.resourceType())) {
+      await route.fallback();
+      return;
+    }
+
+    if (rule.type === 'block') {
+      await route.abort('blockedbyclient');
+      return;
+    }
+    if (rule.type === 'fulfill') {
+      await route.fulfill({
+        status: Number(rule.status) || 200,
+        headers: rule.headers,
+        contentType: normalizeOptionalString(rule.contentType),
+        path: normalizeOptionalString(rule.bodyPath),
+        body: rule.bodyPath ? undefined : String(rule.body ?? ''),
+      });
+      return;
+    }
+    if (rule.type === 'setHeaders') {
+      await route.fallback({ headers: { ...request.headers(), ...rule.headers } });
+      return;
+    }
+    await route.fallback();
+  };
+}
+
+// Ring buffer of console messages, uncaught errors and failed requests per page.
+const pageConsoleLogs = new WeakMap();
+const watchedLogContexts = new WeakSet();
+
+function watchContextLogs(context) {
+  if (watchedLogContexts.has(context)) return;
+  watchedLogContexts.add(context);
+  context.pages().forEach(watchPageLogs);
+  context.on('page', watchPageLogs);
+}
+
+function watchPageLogs(page) {
+  if (pageConsoleLogs.has(page)) return;
+  const log = { entries: /** @type {any[]} */ ([]), dropped: 0 };
+  pageConsoleLogs.set(page, log);
+  const push = (entry) => {
+    log.entries.push({ timestamp: Date.now(), ...entry });
+    if (log.entries.length > CONSOLE_LOG_LIMIT) {
+      log.entries.shift();
+      log.dropped += 1;
+    }
+  };
+
+  page.on('console', (message) => {
+    const location = message.location();
+    push({
+      level: consoleLogLevel(message.type()),
+      source: 'console',
+      text: message.text(),
+      url: location?.url || undefined,
+      lineNumber: location?.url ? location.lineNumber : undefined,
+      columnNumber: location?.url ? location.columnNumber : undefined,
+    });
+  });
+  page.on('pageerror', (error) => {
+    push({ level: 'error', source: 'pageerror', text: error.message || String(error), stack: error.stack || undefined });
+  });
+  page.on('requestfailed', (request) => {
+    const reason = request.failure()?.errorText || 'unknown error';
+    push({ level: 'error', source: 'network', text: `${request.method()} ${request.url()} failed: ${reason}`, url: request.url() });
+  });
+  page.on('response', (response) => {
+    if (response.status() < 400) return;
+    const request = response.request();
+    push({
+      level: 'error',
+      source: 'network',
+      text: `${request.method()} ${response.url()} -> ${response.status()} ${response.statusText()}`.trim(),
+      url: response.url(),
+    });
+  });
+}
+
+function consoleLogLevel(type) {
+  if (type === 'debug' || type === 'trace') return 'debug';
+  if (type === 'warning') return 'warning';
+  if (type === 'error' || type === 'assert') return 'error';
+  return 'info';
+}
+
+/** Buffered entries at or above `level`, newer than `since` (epoch ms), keeping the last `limit`. */
+function readConsoleLogs(page, { since, level, limit }) {
+  const log = pageConsoleLogs.get(page) ?? { entries: [], dropped: 0 };
+  const minLevel = Math.max(0, CONSOLE_LOG_LEVELS.indexOf(String(level || 'debug')));
+  const sinceMs = Number(since) || 0;
+  const entries = log.entries.filter(
+    (entry) => entry.timestamp >= sinceMs && CONSOLE_LOG_LEVELS.indexOf(entry.level) >= minLevel,
+  );
+  const max = Math.floor(Number(limit));
+  return { entries: max > 0 ? entries.slice(-max) : entries, dropped: log.dropped };
+}
+
+/** Appends the page's last `count` error entries to a failed action's message. */
+function withConsoleErrors(error, page, count) {
+  const max = Math.floor(Number(count));
+  if (!(max > 0)) return error;
+  const { entries } = readConsoleLogs(page, { since: 0, level: 'error', limit: max });
+  if (!entries.length) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const lines = entries.map((entry) => {
+    const where = entry.url && entry.lineNumber !== undefined ? ` (${entry.url}:${entry.lineNumber + 1})` : '';
+    return `- [${entry.source}] ${entry.text}${where}`;
+  });
+  return new Error(`${message}\nLast ${entries.length} page error(s):\n${lines.join('\n')}`);
+}
+
+// HAR file each context is served from, and the recorder attached to it, for this connection.
+const contextHarReplays = new WeakMap();
+const contextHarRecorders = new WeakMap();
+
+/**
+ * Serves every request of the context from a HAR file; requests missing from it are aborted so
+ * a replayed run never reaches the network. Network rules are installed after it and win. A
+ * changed or cleared path removes the previous HAR route first.
+ */
+async function applyHarReplay(context, harPath) {
+  const path = normalizeOptionalString(harPath);
+  const current = contextHarReplays.get(context);
+  if (path === current) return;
+  if (path && !existsSync(path)) throw new Error(`HAR replay file not found: ${path}`);
+
+  // Rules must run before the HAR route; drop them here and `runOp` reinstalls them on top.
+  await applyNetworkRules(context, []);
+  // `routeFromHAR` hands back no handler to unroute, and the rules are gone, so clear every route.
+  if (current) await context.unrouteAll({ behavior: 'ignoreErrors' });
+  if (path) {
+    await context.routeFromHAR(path, { notFound: 'abort' });
+    contextHarReplays.set(context, path);
+  } else {
+    contextHarReplays.delete(context);
+  }
+}
+
+/**
+ * Attaches a recorder for `recording.path` to the context, or detaches the current one when
+ * recording has stopped. Finished requests are buffered and written by `flushHarRecorder`.
+ */
+async function syncHarRecorder(context, recording) {
+  const path = normalizeOptionalString(recording?.path);
+  const current = contextHarRecorders.get(context);
+  if (current?.path === path) return;
+
+  if (current) {
+    context.off('requestfinished', current.onFinished);
+    await flushHarRecorder(context);
+    contextHarRecorders.delete(context);
+  }
+  if (!path) return;
+
+  const recorder = { path, entries: /** @type {any[]} */ ([]), pending: new Set() };
+  recorder.onFinished = (request) => {
+    const task = buildHarEntry(request)
+      .then((entry) => {
+        if (entry) recorder.entries.push(entry);
+      })
+      .catch(() => {})
+      .finally(() => recorder.pending.delete(task));
+    recorder.pending.add(task);
+  };
+  context.on('requestfinished', recorder.onFinished);
+  contextHarRecorders.set(context, recorder);
+}
+
+/** Appends the buffered entries to the recorder's HAR file, keeping what earlier connections wrote. */
+async function flushHarRecorder(context) {
+  const recorder = contextHarRecorders.get(context);
+  if (!recorder) return;
+  await Promise.all([...recorder.pending]);
+  if (!recorder.entries.length) return;
+
+  const entries = recorder.entries.splice(0).sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+  if (!appendHarEntries(recorder.path, entries)) rewriteHarFile(recorder.path, entries);
+}
+
+// The recorder writes `log.entries` last, so a HAR file it owns always ends with this.
+const HAR_FILE_TAIL = ']}}';
+
+/**
+ * Writes `entries` just before the closing brackets of the HAR file, so each flush costs the new
+ * entries only. Returns false when the file does not end the way the recorder writes it.
+ */
+function appendHarEntries(path, entries) {
+  if (!existsSync(path)) return false;
+  const fd = openSync(path, 'r+');
+  try {
+    const size = fstatSync(fd).size;
+    const tail = Buffer.alloc(HAR_FILE_TAIL.length + 1);
+    if (size < tail.length) return false;
+    readSync(fd, tail, 0, tail.length, size - tail.length);
+    if (tail.subarray(1).toString('utf8') !== HAR_FILE_TAIL) return false;
+
+    const separator = tail[0] === '['.charCodeAt(0) ? '' : ',';
+    const json = entries.map((entry) => JSON.stringify(entry)).join(',');
+    writeSync(fd, `${separator}${json}${HAR_FILE_TAIL}`, size - HAR_FILE_TAIL.length);
+    return true;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Slow path for a missing or foreign HAR file: parse it once and rewrite it in the recorder's layout. */
+function rewriteHarFile(path, entries) {
+  let har;
+  try {
+    har = JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    har = null;
+  }
+  const log =
+    har?.log && Array.isArray(har.log.entries)
+      ? har.log
+      : { version: '1.2', creator: { name: 'kazibee-chrome-browser', version: '1.0' }, pages: [], entries: [] };
+  const { entries: previous, ...rest } = log;
+  writeFileSync(path, JSON.stringify({ log: { ...rest, entries: [...previous, ...entries] } }));
+}
+
+async function buildHarEntry(request) {
+  const url = new URL(request.url());
+  if (!['http:', 'https:'].includes(url.protocol)) return null;
+  const response = await request.response();
+  if (!response) return null;
+
+  const [requestHeaders, responseHeaders, body] = await Promise.all([
+    request.allHeaders().catch(() => request.headers()),
+    response.allHeaders().catch(() => response.headers()),
+    // Redirects have no body, and bodies of pages navigated away from can be gone.
+    response.body().catch(() => null),
+  ]);
+  const timing = request.timing();
+  const postData = request.postData();
+  const mimeType = responseHeaders['content-type'] || 'x-unknown';
+  const textual = isTextualContentType(mimeType);
+  const toHarHeaders = (headers) => Object.entries(headers).map(([name, value]) => ({ name, value }));
+
+  return {
+    startedDateTime: new Date(timing.startTime > 0 ? timing.startTime : Date.now()).toISOString(),
+    time: Math.max(0, timing.responseEnd),
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(requestHeaders),
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      postData: postData === null ? undefined : { mimeType: requestHeaders['content-type'] || '', text: postData },
+      headersSize: -1,
+      bodySize: postData === null ? 0 : Buffer.byteLength(postData),
+    },
+    response: {
+      status: response.status(),
+      statusText: response.statusText(),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(responseHeaders),
+      content: {
+        size: body ? body.length : 0,
+        mimeType,
+        text: body ? body.toString(textual ? 'utf8' : 'base64') : '',
+        encoding: body && !textual ? 'base64' : undefined,
+      },
+      redirectURL: responseHeaders.location || '',
+      headersSize: -1,
+      bodySize: body ? body.length : -1,
+    },
+    cache: {},
+    timings: {
+      send: 0,
+      wait: Math.max(0, timing.responseStart),
+      receive: Math.max(0, timing.responseEnd - Math.max(0, timing.responseStart)),
+    },
+  };
+}
+
+function isTextualContentType(contentType) {
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(String(contentType || ''));
+}
+
+/**
+ * Records request/response pairs whose URL matches `urlMatches` for `durationMs`. An optional
+ * `action` runs once the listener is attached, so the traffic it triggers is included.
+ */
+async function runCaptureResponses(page, payload) {
+  const pattern = normalizeOptionalString(payload.urlMatches);
+  const urlMatches = pattern ? new RegExp(pattern) : null;
+  const durationMs = Math.min(
+    MAX_CAPTURE_DURATION_MS,
+    Number(payload.durationMs) > 0 ? Number(payload.durationMs) : DEFAULT_CAPTURE_DURATION_MS,
+  );
+  const maxBodyBytes = Number(payload.maxBodyBytes) > 0 ? Number(payload.maxBodyBytes) : DEFAULT_CAPTURE_BODY_BYTES;
+
+  const startedAt = Date.now();
+  const bodyDeadline = startedAt + durationMs + CAPTURE_BODY_GRACE_MS;
+  const pending = [];
+  const onResponse = (response) => {
+    if (urlMatches && !urlMatches.test(response.url())) return;
+    pending.push(describeExchange(response, maxBodyBytes, bodyDeadline));
+  };
+
+  page.on('response', onResponse);
+  let action;
+  try {
+    if (payload.action) action = await runAction(page, payload.action);
+    await sleep(Math.max(0, durationMs - (Date.now() - startedAt)));
+  } finally {
+    page.off('response', onResponse);
+  }
+
+  return { responses: await Promise.all(pending), durationMs: Date.now() - startedAt, action };
+}
+
+/** Reads one exchange; a body still streaming at `bodyDeadline` (SSE, long polls) is reported as missing. */
+async function describeExchange(response, maxBodyBytes, bodyDeadline) {
+  const request = response.request();
+  const headers = await response.allHeaders().catch(() => response.headers());
+  const exchange = {
+    request: {
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      headers: await request.allHeaders().catch(() => request.headers()),
+      postData: request.postData() ?? undefined,
+    },
+    response: {
+      status: response.status(),
+      statusText: response.statusText(),
+      headers,
+    },
+  };
+
+  // Redirects and some aborted requests have no body to read.
+  const timedOut = Symbol('timedOut');
+  let timer;
+  const body = await Promise.race([
+    response.body().catch(() => null),
+    new Promise((resolve) => {
+      timer = setTimeout(() => resolve(timedOut), Math.max(0, bodyDeadline - Date.now()));
+    }),
+  ]).finally(() => clearTimeout(timer));
+  if (body === timedOut) {
+    exchange.response.bodyMissing = true;
+    return exchange;
+  }
+  if (!body) return exchange;
+
+  const contentType = String(headers['content-type'] || '');
+  const textual = isTextualContentType(contentType);
+  const kept = body.subarray(0, maxBodyBytes);
+  exchange.response.body = kept.toString(textual ? 'utf8' : 'base64');
+  exchange.response.bodyEncoding = textual ? 'utf8' : 'base64';
+  if (kept.length < body.length) exchange.response.bodyTruncated = true;
+  if (/json/i.test(contentType) && kept.length === body.length) {
+    try {
+      exchange.response.json = JSON.parse(exchange.response.body);
+    } catch {
+      // Not valid JSON despite the content type; the raw body is still there.
+    }
+  }
+  return exchange;
+}
+
+/**
+ * Cookies plus localStorage and sessionStorage per origin, in Playwright's storageState shape
+ * (with an extra `sessionStorage` list). Without `origins`, storage is read from the open tabs.
+ */
+async function runExportState(context, origins) {
+  const openPages = openPagesByOrigin(context);
+  const targets = Array.isArray(origins) ? origins : [...openPages.keys()];
+  const cookies = await context.cookies();
+  const states = [];
+  for (const origin of targets) {
+    const read = (page) => page.evaluate(readStorageInPage);
+    const storage = openPages.has(origin)
+      ? await read(openPages.get(origin))
+      : await withOriginPage(context, origin, read);
+    if (storage.localStorage.length || storage.sessionStorage.length) {
+      states.push({ origin, ...storage });
+    }
+  }
+
+  return { cookies: Array.isArray(origins) ? cookiesForOrigins(cookies, origins) : cookies, origins: states };
+}
+
+/**
+ * sessionStorage only lives as long as its tab, so it is restored into open tabs of the origin only;
+ * origins whose sessionStorage had no tab to go to are reported as `skippedSessionStorage`.
+ */
+async function runImportState(context, state) {
+  const cookies = Array.isArray(state.cookies) ? state.cookies : [];
+  if (cookies.length) await context.addCookies(cookies);
+
+  const openPages = openPagesByOrigin(context);
+  const origins = Array.isArray(state.origins) ? state.origins : [];
+  const skippedSessionStorage = [];
+  let written = 0;
+  for (const entry of origins) {
+    if (openPages.has(entry.origin)) {
+      await openPages.get(entry.origin).evaluate(writeStorageInPage, entry);
+      written += 1;
+      continue;
+    }
+    // The throwaway tab closes right away and takes its sessionStorage with it, so only localStorage goes there.
+    if (entry.sessionStorage?.length) skippedSessionStorage.push(entry.origin);
+    if (entry.sessionStorage?.length && !entry.localStorage?.length) continue;
+    await withOriginPage(context, entry.origin, (page) =>
+      page.evaluate(writeStorageInPage, { ...entry, sessionStorage: [] }),
+    );
+    written += 1;
+  }
+  return { cookies: cookies.length, origins: written, skippedSessionStorage };
+}
+
+/** Removes cookies and storage for `origins`, or everything (storage of open tabs) without them. */
+async function runClearState(context, origins) {
+  const cookies = await context.cookies();
+  const removed = Array.isArray(origins) ? cookiesForOrigins(cookies, origins) : cookies;
+  if (Array.isArray(origins)) {
+    // Deleting only the matching cookies leaves the others untouched, including any set meanwhile.
+    for (const { name, domain, path } of removed) {
+      await context.clearCookies({ name, domain, path });
+    }
+  } else {
+    await context.clearCookies();
+  }
+
+  const openPages = openPagesByOrigin(context);
+  const targets = Array.isArray(origins) ? origins : [...openPages.keys()];
+  for (const origin of targets) {
+    const clear = (page) => page.evaluate(() => {
+      localStorage.clear();
+      sessionStorage.clear();
+    });
+    if (openPages.has(origin)) {
+      await clear(openPages.get(origin));
+    } else {
+      await withOriginPage(context, origin, clear);
+    }
+  }
+  return { cookies: removed.length, origins: targets.length };
+}
+
+function openPagesByOrigin(context) {
+  const pages = new Map();
+  for (const page of context.pages()) {
+    let origin;
+    try {
+      origin = new URL(page.url()).origin;
+    } catch {
+      continue;
+    }
+    if (origin.startsWith('http') && !pages.has(origin)) pages.set(origin, page);
+  }
+  return pages;
+}
+
+/**
+ * Runs `fn` in a throwaway tab on `origin`; every request is answered locally, so nothing is loaded.
+ * The tab opens in the user's real browser window and is visible until `fn` finishes.
+ */
+async function withOriginPage(context, origin, fn) {
+  const page = await context.newPage();
+  try {
+    await page.route('**/*', (route) => route.fulfill({ status: 200, contentType: 'text/html', body: '<html></html>' }));
+    await page.goto(origin);
+    return await fn(page);
+  } finally {
+    await page.close().catch(() => {});
+  }
+}
+
+function cookiesForOrigins(cookies, origins) {
+  return cookies.filter((cookie) => origins.some((origin) => cookieMatchesOrigin(cookie, origin)));
+}
+
+function cookieMatchesOrigin(cookie, origin) {
+  const host = new URL(origin).hostname;
+  const domain = String(cookie.domain || '');
+  if (domain.startsWith('.')) return host === domain.slice(1) || host.endsWith(domain);
+  return host === domain;
+}
+
+function readStorageInPage() {
+  const entries = (storage) =>
+    Array.from({ length: storage.length }, (_, index) => {
+      const name = storage.key(index);
+      return { name, value: storage.getItem(name) ?? '' };
+    });
+  return { localStorage: entries(localStorage), sessionStorage: entries(sessionStorage) };
+}
+
+function writeStorageInPage(entry) {
+  for (const { name, value } of entry.localStorage || []) localStorage.setItem(name, value);
+  for (const { name, value } of entry.sessionStorage || []) sessionStorage.setItem(name, value);
+}
+
+// Vault location and passphrase, set by the client in this process's environment (never sent per call).
+const credentialVault = readCredentialVaultEnv();
+
+function readCredentialVaultEnv() {
+  const raw = process.env.KAZIBEE_CREDENTIAL_VAULT;
+  delete process.env.KAZIBEE_CREDENTIAL_VAULT;
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decrypts the vault (AES-256-GCM, scrypt key) and returns one field. Copy of `readCredentialVault` in
+ * credential-vault.ts, which writes the format; change both together.
+ * Refuses entries without a pinned origin and documents outside it, so a secret cannot be typed into
+ * another site; `url` is the document the field lives in, which differs from the page URL inside an iframe.
+ */
+function readCredentialValue(name, field, url) {
+  const vault = credentialVault;
+  if (!vault?.passphrase) {
+    throw new Error('fillCredential requires CHROME_CREDENTIALS_PASSPHRASE.');
+  }
+  if (!existsSync(vault.path)) {
+    throw new Error(`Credential vault not found: ${vault.path}`);
+  }
+
+  let credentials;
+  try {
+    const file = JSON.parse(readFileSync(vault.path, 'utf8'));
+    const key = scryptSync(vault.passphrase, Buffer.from(file.salt, 'base64'), 32);
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    credentials = JSON.parse(plain.toString('utf8')).credentials || {};
+  } catch {
+    throw new Error(`Cannot decrypt credential vault ${vault.path}: wrong passphrase or corrupted file.`);
+  }
+
+  const entry = credentials[String(name || '')];
+  if (!entry) throw new Error(`Unknown credential: ${String(name)}`);
+  if (!entry.origin) {
+    throw new Error(`Credential ${String(name)} has no pinned origin; store it again with setCredential(name, fields, { origin }).`);
+  }
+  if (new URL(url).origin !== entry.origin) {
+    throw new Error(`Credential ${String(name)} may only be filled on ${entry.origin}.`);
+  }
+  const value = entry.fields?.[String(field || '')];
+  if (typeof value !== 'string') {
+    throw new Error(`Credential ${String(name)} has no field ${String(field)}.`);
+  }
+  return value;
+}
+
+/** Locators for secret fields in every frame, for the `mask` option of `page.screenshot`. */
+function secretFieldMasks(page) {
+  return page.frames().map((frame) => frame.locator(SECRET_FIELD_SELECTOR));
+}
+
+/** Targets the client's current-tab pointer while that tab still exists; otherwise the default tab is used. */
+async function withCurrentTab(context, payload) {
+  const currentTabId = normalizeOptionalString(payload.currentTabId);
+  if (payload.tabId || !currentTabId) return payload;
+  for (const page of context.pages()) {
+    if ((await getPageTargetId(context, page)) === currentTabId) return { ...payload, tabId: currentTabId };
+  }
+  return payload;
+}
+
+async function findPageByTargetId(context, targetId) {
+  for (const page of context.pages()) {
+    if ((await getPageTargetId(context, page)) === targetId) return page;
+  }
+  throw new Error(`No tab found with id ${targetId}.`);
+}
+
+async function getPageTargetId(context, page) {
+  const cached = pageTargetIds.get(page);
+  if (cached) return cached;
+
+  const session = await context.newCDPSession(page);
+  try {
+    const { targetInfo } = await session.send('Target.getTargetInfo');
+    pageTargetIds.set(page, targetInfo.targetId);
+    return targetInfo.targetId;
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
+/** Runs one action; selectors resolve in `scope`, the page or the iframe of the action's `framePath`. */
+async function runExecute(page, action, scope = page) {
   if (!action || typeof action !== 'object') throw new Error('Missing execute action.');
 
   if (action.type === 'click') {
+    const selector = requireSelector(action.selector);
+    const boundingBox = await readBoundingBox(scope, selector);
+    await runWithOptionalNavigation(page, action.waitForNavigation, async () => {
+      await scope.click(selector);
+    });
+    return { boundingBox };
+  }
+
+  if (action.type === 'dblclick') {
+    const selector = requireSelector(action.selector);
+    const boundingBox = await readBoundingBox(scope, selector);
+    await runWithOptionalNavigation(page, action.waitForNavigation, async () => {
+      await scope.dblclick(selector);
+    });
+    return { boundingBox };
+  }
+
+  if (action.type === 'rightClick') {
+    const selector = requireSelector(action.selector);
+    const boundingBox = await readBoundingBox(scope, selector);
+    await scope.click(selector, { button: 'right' });
+    return { boundingBox };
+  }
+
+  if (action.type === 'hover') {
+    const selector = requireSelector(action.selector);
+    await scope.hover(selector);
+    return { boundingBox: await readBoundingBox(scope, selector) };
+  }
+
+  if (action.type === 'focus') {
+    await scope.focus(requireSelector(action.selector));
+    return;
+  }
+
+  if (action.type === 'press') {
+    const key = String(action.key || '').trim();
+    if (!key) throw new Error('press requires key (e.g. "Enter" or "Control+A").');
+    const selector = normalizeOptionalString(action.selector);
     await runWithOptionalNavigation(page, action.waitForNavigation, async () => {
-      await page.click(requireSelector(action.selector));
+      if (selector) {
+        await scope.press(selector, key);
+      } else {
+        await page.keyboard.press(key);
+      }
     });
     return;
   }
 
+  if (action.type === 'check' || action.type === 'uncheck') {
+    const selector = requireSelector(action.selector);
+    if (action.type === 'check') {
+      await scope.check(selector);
+    } else {
+      await scope.uncheck(selector);
+    }
+    return { checked: await scope.isChecked(selector) };
+  }
+
+  if (action.type === 'clear') {
+    await scope.fill(requireSelector(action.selector), '');
+    return;
+  }
+
+  if (action.type === 'dragAndDrop') {
+    const selector = requireSelector(action.selector);
+    const targetSelector = normalizeOptionalString(action.targetSelector);
+    const targetCell = normalizeOptionalString(action.targetCell);
+    if (Boolean(targetSelector) === Boolean(targetCell)) {
+      throw new Error('dragAndDrop requires exactly one of targetSelector or targetCell.');
+    }
+    if (targetSelector) {
+      await scope.dragAndDrop(selector, targetSelector);
+      return;
+    }
+
+    const target = await resolveCellPoint(page, targetCell, action);
+    await scope.hover(selector);
+    await page.mouse.down();
+    await page.mouse.move(target.x, target.y, { steps: 10 });
+    await page.mouse.up();
+    return { point: target };
+  }
+
+  if (action.type === 'clickCell') {
+    const point = await resolveCellPoint(page, action.cell, action);
+    await runWithOptionalNavigation(page, action.waitForNavigation, async () => {
+      await page.mouse.click(point.x, point.y);
+    });
+    return { point };
+  }
+
+  if (action.type === 'hoverCell') {
+    const point = await resolveCellPoint(page, action.cell, action);
+    await page.mouse.move(point.x, point.y);
+    return { point };
+  }
+
+  if (action.type === 'dragCells') {
+    const from = await resolveCellPoint(page, action.from, { ...action, offset: action.fromOffset });
+    await page.mouse.move(from.x, from.y);
+    await page.mouse.down();
+    const to = await resolveCellPoint(page, action.to, { ...action, offset: action.toOffset });
+    await page.mouse.move(to.x, to.y, { steps: 10 });
+    await page.mouse.up();
+    return { from, to };
+  }
+
+  if (action.type === 'scrollToCell') {
+    const point = await resolveCellPoint(page, action.cell, { ...action, alwaysCenter: true });
+    return { point };
+  }
+
+  if (action.type === 'uploadFile') {
+    const files = (Array.isArray(action.files) ? action.files : [action.files])
+      .map((file) => String(file || '').trim())
+      .filter(Boolean);
+    if (!files.length) throw new Error('uploadFile requires at least one file path in files.');
+    await scope.setInputFiles(requireSelector(action.selector), files);
+    return { files: files.length };
+  }
+
   if (action.type === 'type') {
     const selector = requireSelector(action.selector);
-    await page.fill(selector, '');
-    await page.type(selector, String(action.text || ''));
+    await scope.fill(selector, '');
+    await scope.type(selector, String(action.text || ''));
     return;
   }
 
-  if (action.type === 'select') {
-    await page.selectOption(requireSelector(action.selector), String(action.value || ''));
+  if (action.type === 'fillCredential') {
+    const selector = requireSelector(action.selector);
+    const value = readCredentialValue(action.credential, action.field, scope.url());
+    await scope.fill(selector, '');
+    await scope.type(selector, value);
+    // Marks the field so screenshots mask it and scans/extract never read its value back.
+    await scope.$eval(selector, (el) => el.setAttribute('data-kazibee-credential', ''));
     return;
   }
 
+  if (action.type === 'select') {
+    const values = await scope.selectOption(requireSelector(action.selector), String(action.value || ''));
+    return { values };
+  }
+
   if (action.type === 'submit') {
     const selector = requireSelector(action.selector);
     await runWithOptionalNavigation(page, action.waitForNavigation, async () => {
-      await page.$eval(selector, (node) => {
+      await scope.$eval(selector, (node) => {
         const el = node;
         if (el instanceof HTMLFormElement) {
           if (typeof el.requestSubmit === 'function') {
@@ -134,55 +1182,475 @@ async function runExecute(page, action) {
   }
 
   if (action.type === 'waitForSelector') {
-    await page.waitForSelector(requireSelector(action.selector), {
-      state: normalizeSelectorWaitState(action.state),
+    const selector = requireSelector(action.selector);
+    const state = normalizeSelectorWaitState(action.state);
+    await scope.waitForSelector(selector, {
+      state,
       timeout: normalizeTimeoutMs(action.timeoutMs),
     });
+    const found = state === 'attached' || state === 'visible';
+    return { found, boundingBox: found ? await readBoundingBox(scope, selector) : null };
+  }
+
+  if (action.type === 'waitForUrl') {
+    const timeout = normalizeTimeoutMs(action.timeoutMs);
+    const includes = normalizeOptionalString(action.urlIncludes);
+    const matches = normalizeOptionalString(action.urlMatches);
+    if (includes) {
+      await page.waitForURL((url) => String(url).includes(includes), { timeout, waitUntil: 'domcontentloaded' });
+      return;
+    }
+    if (!matches) {
+      throw new Error('waitForUrl requires urlIncludes or urlMatches.');
+    }
+    await page.waitForURL(new RegExp(matches), { timeout, waitUntil: 'domcontentloaded' });
+    return;
+  }
+
+  if (action.type === 'scroll') {
+    const amount = Number(action.amount || 500);
+    const delta = action.direction === 'up' ? -amount : amount;
+    await page.mouse.wheel(0, delta);
+    return page.evaluate(() => ({ scrollX: window.scrollX, scrollY: window.scrollY }));
+  }
+
+  if (action.type === 'navigate') {
+    await page.goto(String(action.url || ''), {
+      waitUntil: normalizeLoadState(action.waitUntil),
+      timeout: normalizeTimeoutMsOrUndefined(action.timeoutMs),
+    });
     return;
   }
 
-  if (action.type === 'waitForUrl') {
-    const timeout = normalizeTimeoutMs(action.timeoutMs);
-    const includes = normalizeOptionalString(action.urlIncludes);
-    const matches = normalizeOptionalString(action.urlMatches);
-    if (!includes && !matches) {
-      throw new Error('waitForUrl requires urlIncludes or urlMatches.');
+  throw new Error(`Unknown action type: ${String(action.type)}`);
+}
+
+/** Runs one action and reports where the page ended up, plus any data the action produced. */
+async function runAction(page, action) {
+  const startedAt = Date.now();
+  const urlBefore = page.url();
+  const scope = await resolveActionFrame(page, action);
+  let fallbackSelector;
+  let navigated = false;
+  const onNavigated = (frame) => {
+    if (frame === page.mainFrame()) navigated = true;
+  };
+
+  page.on('framenavigated', onNavigated);
+  try {
+    let data;
+    try {
+      data = await runExecute(page, action, scope);
+    } catch (error) {
+      fallbackSelector = await pickFallbackSelector(scope, action);
+      if (!fallbackSelector) throw error;
+      data = await runExecute(page, { ...action, selector: fallbackSelector }, scope);
+    }
+    return {
+      url: page.url(),
+      title: await page.title().catch(() => ''),
+      navigated: navigated || page.url() !== urlBefore,
+      durationMs: Date.now() - startedAt,
+      fallbackSelector,
+      data,
+    };
+  } finally {
+    page.off('framenavigated', onNavigated);
+  }
+}
+
+/**
+ * Enters the iframes of `action.framePath` (iframe selectors, outermost first, as `scanZones` reports
+ * them) and returns the innermost frame; actions without a frame path run on the page itself.
+ */
+async function resolveActionFrame(page, action) {
+  const framePath = Array.isArray(action?.framePath) ? action.framePath : [];
+  let frame = page.mainFrame();
+  for (const hop of framePath) {
+    const selector = requireSelector(hop);
+    const element = await frame.waitForSelector(selector, {
+      state: 'attached',
+      timeout: normalizeTimeoutMs(action.timeoutMs),
+    });
+    const child = await element.contentFrame();
+    await element.dispose().catch(() => {});
+    if (!child) throw new Error(`Frame path selector does not match an iframe: ${selector}`);
+    frame = child;
+  }
+  return framePath.length ? frame : page;
+}
+
+/**
+ * Called after the action failed with its own selector, so Playwright's actionability wait has
+ * already run out: when that selector still matches nothing, returns the first of its
+ * `alternatives` that does; otherwise undefined and the original error stands.
+ */
+async function pickFallbackSelector(page, action) {
+  const alternatives = Array.isArray(action?.alternatives) ? action.alternatives : [];
+  const selector = normalizeOptionalString(action?.selector);
+  if (!selector || !alternatives.length) return undefined;
+  if (await hasMatch(page, selector)) return undefined;
+
+  for (const alternative of alternatives) {
+    const candidate = normalizeOptionalString(alternative);
+    if (candidate && candidate !== selector && (await hasMatch(page, candidate))) return candidate;
+  }
+  return undefined;
+}
+
+async function hasMatch(page, selector) {
+  const handle = await page.$(selector).catch(() => null);
+  if (!handle) return false;
+  await handle.dispose().catch(() => {});
+  return true;
+}
+
+/**
+ * Runs actions in order on one page and reports every step. After a failure the remaining steps
+ * are reported as `skipped` when `stopOnError` is set; otherwise execution continues.
+ */
+async function runExecuteSequence(page, actions, { stopOnError, screenshotOnError }) {
+  if (!Array.isArray(actions) || !actions.length) {
+    throw new Error('executeSequence requires a non-empty actions array.');
+  }
+
+  const steps = [];
+  let failed = false;
+  for (const [index, action] of actions.entries()) {
+    const type = String(action?.type || '');
+    if (failed && stopOnError) {
+      steps.push({ index, type, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    try {
+      steps.push({ index, type, status: 'ok', ...(await runAction(page, action)) });
+    } catch (error) {
+      failed = true;
+      const step = {
+        index,
+        type,
+        status: 'error',
+        durationMs: Date.now() - startedAt,
+        url: page.url(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+      if (screenshotOnError) {
+        step.screenshotBase64 = await runGridScreenshot(page)
+          .then(({ image }) => image.toString('base64'))
+          .catch(() => undefined);
+      }
+      steps.push(step);
+    }
+  }
+
+  return { ok: !failed, steps };
+}
+
+async function runScanZones(page, zones, coordinateSpace, gridOptions) {
+  const cellSize = await resolveScanCellSize(page, coordinateSpace, gridOptions);
+  const results = [];
+  for (const zone of zones) {
+    results.push(await runSingleZoneScanWithRetry(page, zone, coordinateSpace, cellSize));
+  }
+  return results;
+}
+
+/**
+ * Resolves the cell size for a scan from the same image-pixel dimensions the matching
+ * grid screenshot would have, so column/row targets produce identical grids.
+ */
+async function resolveScanCellSize(page, coordinateSpace, gridOptions) {
+  if (gridOptions.cellSize || (!gridOptions.gridColumns && !gridOptions.gridRows)) {
+    return resolveCellSize(gridOptions, 0, 0);
+  }
+
+  const size = await page.evaluate((space) => {
+    const dpr = Math.max(0.01, Number(window.devicePixelRatio) || 1);
+    const width = space === 'page' ? document.documentElement.scrollWidth : window.innerWidth;
+    const height = space === 'page' ? document.documentElement.scrollHeight : window.innerHeight;
+    return { width: Math.round(width * dpr), height: Math.round(height * dpr) };
+  }, coordinateSpace);
+  return resolveCellSize(gridOptions, size.width, size.height);
+}
+
+/**
+ * Scans the zone in the main frame and every child frame. Zone bounds are converted from image
+ * pixels to main-frame CSS pixels once; each frame then offsets its own DOM rects by where its
+ * content sits in the main frame, and reports the iframe selectors that lead to it as `framePath`.
+ */
+async function scanZoneInFrames(page, bounds, coordinateSpace, cellSize) {
+  const view = await page.evaluate(() => ({
+    dpr: Math.max(0.01, Number(window.devicePixelRatio) || 1),
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+  }));
+
+  // The visual grid is drawn on screenshot image pixels. Convert those zone bounds
+  // back into CSS-pixel coordinates before intersecting DOM rects.
+  const zoneRect = {
+    left: (bounds.minCol * cellSize) / view.dpr,
+    right: ((bounds.maxCol + 1) * cellSize) / view.dpr,
+    top: (bounds.minRow * cellSize) / view.dpr,
+    bottom: ((bounds.maxRow + 1) * cellSize) / view.dpr,
+  };
+  const pageOrigin = coordinateSpace === 'page' ? { x: view.scrollX, y: view.scrollY } : { x: 0, y: 0 };
+
+  const elements = [];
+  for (const frame of page.frames()) {
+    const isMain = frame === page.mainFrame();
+    const placement = isMain ? { x: 0, y: 0, framePath: [] } : await describeChildFrame(page, frame);
+    if (!placement) continue;
+
+    try {
+      const frameElements = await evaluateWithHelpers(frame, scanFrameInPage, {
+        zoneRect,
+        origin: { x: pageOrigin.x + placement.x, y: pageOrigin.y + placement.y },
+        frameOffset: { x: placement.x, y: placement.y },
+        scroll: { x: view.scrollX, y: view.scrollY },
+        framePath: placement.framePath,
+        frameUrl: isMain ? null : frame.url(),
+      });
+      for (const element of frameElements) {
+        const box = coordinateSpace === 'page' ? element.pageBox : element.boundingBox;
+        elements.push({ ...element, gridRef: gridRefForCells(gridCellsForBox(box, view.dpr, cellSize)) });
+      }
+    } catch (error) {
+      // A child frame can navigate or detach mid-scan; only main-frame failures are retried.
+      if (isMain) throw error;
+    }
+  }
+  return elements;
+}
+
+/**
+ * Where a child frame's content starts in the main-frame viewport (CSS pixels) and the iframe
+ * selectors, outermost first, that lead to it, or null when the frame is detached or not rendered.
+ */
+async function describeChildFrame(page, frame) {
+  if (frame.isDetached()) return null;
+  const parent = frame.parentFrame();
+  if (!parent) return null;
+  const parentPlacement = parent === page.mainFrame() ? { framePath: [] } : await describeChildFrame(page, parent);
+  if (!parentPlacement) return null;
+
+  const frameElement = await frame.frameElement().catch(() => null);
+  if (!frameElement) return null;
+  try {
+    const box = await frameElement.boundingBox();
+    if (!box) return null;
+    const inner = await evaluateWithHelpers(frameElement, (node, { helpers: { buildSelector } }) => {
+      const style = window.getComputedStyle(node);
+      return {
+        x: node.clientLeft + (parseFloat(style.paddingLeft) || 0),
+        y: node.clientTop + (parseFloat(style.paddingTop) || 0),
+        selector: buildSelector(node),
+      };
+    });
+    // A frame no unique selector reaches cannot be entered by `execute`, so it is not scanned.
+    if (!inner.selector) return null;
+    return {
+      x: box.x + inner.x,
+      y: box.y + inner.y,
+      framePath: [...parentPlacement.framePath, inner.selector],
+    };
+  } finally {
+    await frameElement.dispose().catch(() => {});
+  }
+}
+
+/**
+ * Runs in one frame: interactive elements (including inside open shadow roots) that intersect the
+ * zone, with their boxes in main-frame viewport and page CSS pixels and their interaction state.
+ */
+function scanFrameInPage({ helpers: { selectorCandidates }, zoneRect, origin, frameOffset, scroll, framePath, frameUrl }) {
+  const isInteractive = (el) => {
+    const tag = el.tagName;
+    if (['BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'SUMMARY'].includes(tag)) return true;
+    if (tag === 'A' && el.href) return true;
+    const role = el.getAttribute('role');
+    if (role && ['button', 'link', 'checkbox', 'radio', 'menuitem', 'tab', 'switch', 'combobox'].includes(role)) return true;
+    if (el.hasAttribute('contenteditable')) return true;
+    const tabIndex = el.getAttribute('tabindex');
+    if (tabIndex !== null && Number(tabIndex) >= 0) return true;
+    if (el.hasAttribute('onclick')) return true;
+    return false;
+  };
+
+  const isSecretField = (el) =>
+    el.hasAttribute('data-kazibee-credential') || String(el.getAttribute('type') || '').toLowerCase() === 'password';
+
+  const getText = (el) => {
+    const value = isSecretField(el) ? '' : el.value;
+    const raw = (el.innerText || value || el.placeholder || el.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim();
+    return raw.slice(0, 60);
+  };
+
+  const intersects = (a, b) => {
+    return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
+  };
+
+  const round = (value) => Math.round(value * 100) / 100;
+
+  const isVisible = (el) => {
+    if (typeof el.checkVisibility === 'function') {
+      return el.checkVisibility({ opacityProperty: true, visibilityProperty: true });
+    }
+    const style = window.getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none' && Number(style.opacity) !== 0;
+  };
+
+  const isEnabled = (el) => {
+    if (el.matches(':disabled')) return false;
+    return !el.closest('[aria-disabled="true"]');
+  };
+
+  const readChecked = (el) => {
+    if (el instanceof HTMLInputElement && ['checkbox', 'radio'].includes(el.type)) {
+      return el.indeterminate ? 'mixed' : el.checked;
+    }
+    const ariaChecked = el.getAttribute('aria-checked') || el.getAttribute('aria-pressed');
+    if (ariaChecked === 'mixed') return 'mixed';
+    return ariaChecked === 'true' ? true : ariaChecked === 'false' ? false : undefined;
+  };
+
+  const readExpanded = (el) => {
+    const ariaExpanded = el.getAttribute('aria-expanded');
+    if (ariaExpanded === 'true' || ariaExpanded === 'false') return ariaExpanded === 'true';
+    if (el.tagName === 'SUMMARY' && el.parentElement instanceof HTMLDetailsElement) return el.parentElement.open;
+    return undefined;
+  };
+
+  // activeElement stops at shadow hosts, so follow it down into open shadow roots.
+  const deepActiveElement = () => {
+    if (!document.hasFocus()) return null;
+    let active = document.activeElement;
+    while (active && active.shadowRoot && active.shadowRoot.activeElement) {
+      active = active.shadowRoot.activeElement;
     }
-    if (includes) {
-      await page.waitForURL((url) => String(url).includes(includes), { timeout, waitUntil: 'domcontentloaded' });
-      return;
+    return active;
+  };
+  const focusedElement = deepActiveElement();
+
+  const deepElementFromPoint = (x, y) => {
+    let hit = document.elementFromPoint(x, y);
+    while (hit && hit.shadowRoot) {
+      const inner = hit.shadowRoot.elementFromPoint(x, y);
+      if (!inner || inner === hit) break;
+      hit = inner;
     }
-    await page.waitForURL(new RegExp(matches), { timeout, waitUntil: 'domcontentloaded' });
-    return;
-  }
+    return hit;
+  };
 
-  if (action.type === 'scroll') {
-    const amount = Number(action.amount || 500);
-    const delta = action.direction === 'up' ? -amount : amount;
-    await page.mouse.wheel(0, delta);
-    return;
-  }
+  const containsDeep = (el, node) => {
+    let current = node;
+    while (current) {
+      if (current === el) return true;
+      current = current.parentNode || (current instanceof ShadowRoot ? current.host : null);
+    }
+    return false;
+  };
 
-  if (action.type === 'navigate') {
-    await page.goto(String(action.url || ''), {
-      waitUntil: normalizeLoadState(action.waitUntil),
-      timeout: normalizeTimeoutMsOrUndefined(action.timeoutMs),
-    });
-    return;
-  }
+  const describeNode = (node) => {
+    const id = node.id ? `#${node.id}` : '';
+    const className = typeof node.className === 'string' ? node.className.trim().split(/\s+/).filter(Boolean)[0] : '';
+    return `${node.tagName.toLowerCase()}${id}${className ? `.${className}` : ''}`;
+  };
 
-  throw new Error(`Unknown action type: ${String(action.type)}`);
-}
+  // What the pointer would hit at the element's center; elements outside the frame's viewport are not checked.
+  const readObscured = (el, rect) => {
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+    if (x < 0 || y < 0 || x >= window.innerWidth || y >= window.innerHeight) return { inViewport: false, obscured: false };
+    const hit = deepElementFromPoint(x, y);
+    if (!hit || containsDeep(el, hit)) return { inViewport: true, obscured: false };
+    return { inViewport: true, obscured: true, obscuredBy: describeNode(hit) };
+  };
+
+  // querySelectorAll stops at shadow boundaries, so descend into every open shadow root.
+  const deepQueryAll = (root, query, found = []) => {
+    root.querySelectorAll(query).forEach((el) => found.push(el));
+    root.querySelectorAll('*').forEach((el) => {
+      if (el.shadowRoot) deepQueryAll(el.shadowRoot, query, found);
+    });
+    return found;
+  };
 
-async function runScanZones(page, zones, coordinateSpace) {
   const results = [];
-  for (const zone of zones) {
-    results.push(await runSingleZoneScanWithRetry(page, zone, coordinateSpace));
-  }
+  const seenSelectors = new Set();
+  const selectorCache = new Map();
+
+  const candidates = new Set();
+  const interactiveQuery = 'a[href],button,input,select,textarea,summary,[role],[tabindex],[contenteditable],[onclick]';
+  deepQueryAll(document, interactiveQuery).forEach((el) => candidates.add(el));
+  deepQueryAll(document, '[style*="cursor: pointer"],[style*="cursor:pointer"]').forEach((el) => candidates.add(el));
+
+  candidates.forEach((el) => {
+    if (!(el instanceof HTMLElement)) return;
+    if (!isInteractive(el)) return;
+
+    const rect = el.getBoundingClientRect();
+    if (!rect || rect.width <= 0 || rect.height <= 0) return;
+
+    const rectInSpace = {
+      left: rect.left + origin.x,
+      right: rect.right + origin.x,
+      top: rect.top + origin.y,
+      bottom: rect.bottom + origin.y,
+    };
+    if (!intersects(zoneRect, rectInSpace)) return;
+
+    const [selector, ...alternatives] = selectorCandidates(el, { cache: selectorCache });
+    if (!selector) return;
+    if (seenSelectors.has(selector)) return;
+    seenSelectors.add(selector);
+
+    const boundingBox = {
+      x: round(rect.left + frameOffset.x),
+      y: round(rect.top + frameOffset.y),
+      width: round(rect.width),
+      height: round(rect.height),
+    };
+    const hops = selector.split(' >> ').slice(0, -1);
+    const shadowPath = hops.map((_, index) => hops.slice(0, index + 1).join(' >> '));
+    results.push({
+      selector,
+      alternatives: alternatives.length ? alternatives : undefined,
+      tag: el.tagName,
+      text: getText(el),
+      href: el instanceof HTMLAnchorElement ? el.href || undefined : undefined,
+      placeholder: ('placeholder' in el && el.placeholder) || undefined,
+      type: ('type' in el && el.type) || undefined,
+      role: el.getAttribute('role') || undefined,
+      label: el.getAttribute('aria-label') || undefined,
+      frameUrl: frameUrl || undefined,
+      framePath: framePath.length ? framePath : undefined,
+      shadowPath: shadowPath.length ? shadowPath : undefined,
+      boundingBox,
+      pageBox: { ...boundingBox, x: round(boundingBox.x + scroll.x), y: round(boundingBox.y + scroll.y) },
+      visible: isVisible(el),
+      enabled: isEnabled(el),
+      checked: readChecked(el),
+      expanded: readExpanded(el),
+      focused: el === focusedElement,
+      ...readObscured(el, rect),
+    });
+  });
+
+  results.sort((a, b) => {
+    const aText = (a.text || '').toLowerCase();
+    const bText = (b.text || '').toLowerCase();
+    if (aText && bText) return aText.localeCompare(bText);
+    if (aText) return -1;
+    if (bText) return 1;
+    return a.selector.localeCompare(b.selector);
+  });
+
   return results;
 }
 
-async function runSingleZoneScanWithRetry(page, zone, coordinateSpace) {
+async function runSingleZoneScanWithRetry(page, zone, coordinateSpace, cellSize) {
   const start = parseCell(zone.start);
   const end = parseCell(zone.end);
   const minCol = Math.min(start.col, end.col);
@@ -196,183 +1664,11 @@ async function runSingleZoneScanWithRetry(page, zone, coordinateSpace) {
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
     try {
       await waitForStableDom(page);
-      const elements = await page.evaluate(
-        ({ minCol, maxCol, minRow, maxRow, cellSize, coordinateSpace }) => {
-          const isInteractive = (el) => {
-            const tag = el.tagName;
-            if (['BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'SUMMARY'].includes(tag)) return true;
-            if (tag === 'A' && el.href) return true;
-            const role = el.getAttribute('role');
-            if (role && ['button', 'link', 'checkbox', 'radio', 'menuitem', 'tab', 'switch', 'combobox'].includes(role)) return true;
-            if (el.hasAttribute('contenteditable')) return true;
-            const tabIndex = el.getAttribute('tabindex');
-            if (tabIndex !== null && Number(tabIndex) >= 0) return true;
-            if (el.hasAttribute('onclick')) return true;
-            return false;
-          };
-
-          const getText = (el) => {
-            const raw = (el.innerText || el.value || el.placeholder || el.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim();
-            return raw.slice(0, 60);
-          };
-
-          const intersects = (a, b) => {
-            return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
-          };
-
-          const results = [];
-          const seenSelectors = new Set();
-
-          const dpr = Math.max(0.01, Number(window.devicePixelRatio) || 1);
-          const cssSpaceWidth = coordinateSpace === 'page'
-            ? Math.max(1, Number(document.documentElement.scrollWidth) || 1)
-            : Math.max(1, Number(window.innerWidth) || 1);
-          const cssSpaceHeight = coordinateSpace === 'page'
-            ? Math.max(1, Number(document.documentElement.scrollHeight) || 1)
-            : Math.max(1, Number(window.innerHeight) || 1);
-
-          // The visual grid is drawn on screenshot image pixels. Convert those zone bounds
-          // back into CSS-pixel coordinates before intersecting DOM rects.
-          const imageSpaceWidth = Math.max(1, cssSpaceWidth * dpr);
-          const imageSpaceHeight = Math.max(1, cssSpaceHeight * dpr);
-          const scaleX = imageSpaceWidth / cssSpaceWidth;
-          const scaleY = imageSpaceHeight / cssSpaceHeight;
-
-          const zoneRectImage = {
-            left: minCol * cellSize,
-            right: (maxCol + 1) * cellSize,
-            top: minRow * cellSize,
-            bottom: (maxRow + 1) * cellSize,
-          };
-          const zoneRect = {
-            left: zoneRectImage.left / scaleX,
-            right: zoneRectImage.right / scaleX,
-            top: zoneRectImage.top / scaleY,
-            bottom: zoneRectImage.bottom / scaleY,
-          };
-
-          const candidates = new Set();
-          const interactiveQuery =
-            'a[href],button,input,select,textarea,summary,[role],[tabindex],[contenteditable],[onclick]';
-          document.querySelectorAll(interactiveQuery).forEach((el) => candidates.add(el));
-
-          const pointerCandidates = document.querySelectorAll('[style*="cursor: pointer"],[style*="cursor:pointer"]');
-          pointerCandidates.forEach((el) => candidates.add(el));
-
-          candidates.forEach((el) => {
-            if (!(el instanceof HTMLElement)) return;
-            if (!isInteractive(el)) return;
-
-            const rect = el.getBoundingClientRect();
-            if (!rect || rect.width <= 0 || rect.height <= 0) return;
-
-            const rectInSpace =
-              coordinateSpace === 'page'
-                ? {
-                    left: rect.left + window.scrollX,
-                    right: rect.right + window.scrollX,
-                    top: rect.top + window.scrollY,
-                    bottom: rect.bottom + window.scrollY,
-                  }
-                : {
-                    left: rect.left,
-                    right: rect.right,
-                    top: rect.top,
-                    bottom: rect.bottom,
-                  };
-
-            if (!intersects(zoneRect, rectInSpace)) return;
-
-            const selector = buildSelector(el);
-            if (!selector || seenSelectors.has(selector)) return;
-            seenSelectors.add(selector);
-
-            results.push({
-              selector,
-              tag: el.tagName,
-              text: getText(el),
-              href: el.tagName === 'A' ? el.href || undefined : undefined,
-              placeholder: el.placeholder || undefined,
-              type: el.type || undefined,
-              role: el.getAttribute('role') || undefined,
-              label: el.getAttribute('aria-label') || undefined,
-            });
-          });
-
-          results.sort((a, b) => {
-            const aText = (a.text || '').toLowerCase();
-            const bText = (b.text || '').toLowerCase();
-            if (aText && bText) return aText.localeCompare(bText);
-            if (aText) return -1;
-            if (bText) return 1;
-            return a.selector.localeCompare(b.selector);
-          });
-
-          return results;
-
-          function buildSelector(el) {
-            const anchor = findAnchor(el);
-            const segments = [];
-            let node = el;
-            while (node && node !== anchor) {
-              segments.unshift(segmentForNode(node));
-              node = node.parentElement;
-            }
-
-            if (!anchor) {
-              return segments.join(' > ');
-            }
-
-            const anchorSegment = segmentForAnchor(anchor);
-            return [anchorSegment, ...segments].join(' > ');
-          }
-
-          function findAnchor(el) {
-            let node = el;
-            while (node && node.tagName) {
-              if (node.id) return node;
-              if (node.tagName.toLowerCase() === 'html') return node;
-              node = node.parentElement;
-            }
-            return null;
-          }
-
-          function segmentForAnchor(el) {
-            const tag = el.tagName.toLowerCase();
-            if (el.id) return `${tag}#${escapeCss(el.id)}`;
-            return tag;
-          }
-
-          function segmentForNode(el) {
-            const tag = el.tagName.toLowerCase();
-            const parent = el.parentElement;
-            if (!parent) return tag;
-
-            const sameTagSiblings = Array.from(parent.children).filter((child) => child.tagName === el.tagName);
-            if (sameTagSiblings.length <= 1) return tag;
-            const position = sameTagSiblings.indexOf(el) + 1;
-            return `${tag}:nth-of-type(${position})`;
-          }
-
-          function escapeCss(value) {
-            if (window.CSS && typeof window.CSS.escape === 'function') {
-              return window.CSS.escape(String(value));
-            }
-            return String(value).replace(/[^a-zA-Z0-9_-]/g, (ch) => `\\${ch}`);
-          }
-        },
-        {
-          minCol,
-          maxCol,
-          minRow,
-          maxRow,
-          cellSize: CELL_SIZE,
-          coordinateSpace,
-        },
-      );
+      const elements = await scanZoneInFrames(page, { minCol, maxCol, minRow, maxRow }, coordinateSpace, cellSize);
 
       return {
         zone: zoneName,
+        cellSize,
         elements,
       };
     } catch (error) {
@@ -410,8 +1706,447 @@ async function sleep(ms) {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function runGridScreenshot(page, start, end, fullPage = false) {
-  const screenshotBuffer = await page.screenshot({ type: 'png', fullPage, scale: 'device' });
+const EXTRACT_KINDS = ['text', 'links', 'tables', 'forms', 'headings'];
+
+/**
+ * Reads structured content from the DOM: main text, links, tables, form fields or headings.
+ * The scope is the first element matching `selector` (default: the whole document), further
+ * limited to elements intersecting `zone` when one is given, using the same grid as `scanZones`.
+ */
+async function runExtract(page, payload) {
+  const kind = String(payload.kind || '');
+  if (!EXTRACT_KINDS.includes(kind)) {
+    throw new Error(`extract kind must be one of: ${EXTRACT_KINDS.join(', ')}.`);
+  }
+
+  const coordinateSpace = normalizeCoordinateSpace(payload.coordinateSpace);
+  let zoneRect = null;
+  if (payload.zone) {
+    const start = parseCell(payload.zone.start);
+    const end = parseCell(payload.zone.end);
+    const cellSize = await resolveScanCellSize(page, coordinateSpace, normalizeGridOptions(payload));
+    zoneRect = {
+      left: Math.min(start.col, end.col) * cellSize,
+      right: (Math.max(start.col, end.col) + 1) * cellSize,
+      top: Math.min(start.row, end.row) * cellSize,
+      bottom: (Math.max(start.row, end.row) + 1) * cellSize,
+    };
+  }
+
+  await waitForStableDom(page);
+  const extracted = await page.evaluate(
+    ({ kind, selector, zoneRect, coordinateSpace }) => {
+      const root = selector ? document.querySelector(selector) : document.body;
+      if (!root) throw new Error(`No element matches selector: ${selector}`);
+
+      const dpr = Math.max(0.01, Number(window.devicePixelRatio) || 1);
+      const zone = zoneRect
+        ? {
+            left: zoneRect.left / dpr,
+            right: zoneRect.right / dpr,
+            top: zoneRect.top / dpr,
+            bottom: zoneRect.bottom / dpr,
+          }
+        : null;
+      const offsetX = coordinateSpace === 'page' ? window.scrollX : 0;
+      const offsetY = coordinateSpace === 'page' ? window.scrollY : 0;
+
+      const isVisible = (el) => {
+        const rect = el.getBoundingClientRect();
+        if (rect.width <= 0 || rect.height <= 0) return false;
+        const style = window.getComputedStyle(el);
+        return style.visibility !== 'hidden' && style.display !== 'none';
+      };
+      const inZone = (el) => {
+        if (!zone) return true;
+        const rect = el.getBoundingClientRect();
+        return (
+          rect.left + offsetX < zone.right &&
+          rect.right + offsetX > zone.left &&
+          rect.top + offsetY < zone.bottom &&
+          rect.bottom + offsetY > zone.top
+        );
+      };
+      const collect = (query) =>
+        [root, ...root.querySelectorAll(query)].filter((el) => el.matches(query) && isVisible(el) && inZone(el));
+      const clean = (value) => String(value || '').replace(/\s+/g, ' ').trim();
+      const fieldSelector = (el) => {
+        if (el.id) return `#${CSS.escape(el.id)}`;
+        const name = el.getAttribute('name');
+        if (name) return `${el.tagName.toLowerCase()}[name="${CSS.escape(name)}"]`;
+        return undefined;
+      };
+
+      if (kind === 'headings') {
+        return {
+          headings: collect('h1,h2,h3,h4,h5,h6,[role="heading"]').map((el) => ({
+            level: /^H[1-6]$/.test(el.tagName) ? Number(el.tagName[1]) : Number(el.getAttribute('aria-level')) || 2,
+            text: clean(el.innerText),
+          })),
+        };
+      }
+
+      if (kind === 'links') {
+        return {
+          links: collect('a[href]').map((el) => ({
+            text: clean(el.innerText || el.getAttribute('aria-label') || el.title),
+            href: el.href,
+          })),
+        };
+      }
+
+      if (kind === 'tables') {
+        return {
+          tables: collect('table').map((table) => {
+            const rows = [...table.rows].map((row) => [...row.cells].map((cell) => clean(cell.innerText)));
+            const firstRow = table.rows[0];
+            const hasHeaderRow =
+              Boolean(table.tHead) || Boolean(firstRow && [...firstRow.cells].every((cell) => cell.tagName === 'TH'));
+            return {
+              caption: clean(table.caption?.innerText) || undefined,
+              headers: hasHeaderRow ? rows[0] : [],
+              rows: hasHeaderRow ? rows.slice(1) : rows,
+            };
+          }),
+        };
+      }
+
+      if (kind === 'forms') {
+        const describeField = (el) => {
+          const type = (el.getAttribute('type') || el.tagName).toLowerCase();
+          const labelledBy = (el.getAttribute('aria-labelledby') || '')
+            .split(/\s+/)
+            .map((id) => document.getElementById(id)?.innerText || '')
+            .join(' ');
+          const label = clean(
+            (el.labels && el.labels[0]?.innerText) || el.getAttribute('aria-label') || labelledBy || el.placeholder,
+          );
+          const field = {
+            selector: fieldSelector(el),
+            tag: el.tagName.toLowerCase(),
+            type,
+            name: el.getAttribute('name') || undefined,
+            label: label || undefined,
+            // Password and credential-filled values are never read back.
+            value: type === 'password' || el.hasAttribute('data-kazibee-credential') ? undefined : el.value,
+            required: Boolean(el.required) || el.getAttribute('aria-required') === 'true',
+          };
+          if (type === 'checkbox' || type === 'radio') field.checked = el.checked;
+          if (el.tagName === 'SELECT') {
+            field.options = [...el.options].map((option) => ({
+              value: option.value,
+              text: clean(option.text),
+              selected: option.selected,
+            }));
+          }
+          return field;
+        };
+        const fieldQuery = 'input:not([type="hidden"]),select,textarea';
+        const forms = collect('form').map((form) => ({
+          selector: fieldSelector(form),
+          action: form.action || undefined,
+          method: (form.getAttribute('method') || 'get').toLowerCase(),
+          fields: [...form.querySelectorAll(fieldQuery)].filter(isVisible).map(describeField),
+        }));
+        const orphans = collect(fieldQuery).filter((el) => !el.form);
+        if (orphans.length) {
+          forms.push({ selector: undefined, action: undefined, method: undefined, fields: orphans.map(describeField) });
+        }
+        return { forms };
+      }
+
+      // Readability-style main content: score blocks by the paragraph text they directly contain,
+      // then read headings, paragraphs, list items and quotes from the best one.
+      const boilerplate = 'nav,header,footer,aside,script,style,noscript,form,[role="navigation"],[role="banner"],[role="contentinfo"]';
+      let contentRoot = root;
+      if (!selector && !zone) {
+        contentRoot = document.querySelector('article, main, [role="main"]') || root;
+        if (contentRoot === root) {
+          const scores = new Map();
+          for (const paragraph of root.querySelectorAll('p')) {
+            if (paragraph.closest(boilerplate)) continue;
+            const length = clean(paragraph.innerText).length;
+            if (length < 25) continue;
+            const parent = paragraph.parentElement;
+            if (!parent) continue;
+            scores.set(parent, (scores.get(parent) || 0) + length);
+            const grandparent = parent.parentElement;
+            if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + length / 2);
+          }
+          let bestScore = 0;
+          scores.forEach((score, el) => {
+            if (score > bestScore) {
+              bestScore = score;
+              contentRoot = el;
+            }
+          });
+        }
+      }
+
+      const blocks = [...contentRoot.querySelectorAll('h1,h2,h3,h4,h5,h6,p,li,pre,blockquote,td,th,dd,dt,figcaption')]
+        .filter((el) => !el.closest(boilerplate) && isVisible(el) && inZone(el))
+        .filter((el) => !el.parentElement?.closest('p,li,pre,blockquote,td,th,dd,dt,figcaption'))
+        .map((el) => clean(el.innerText))
+        .filter(Boolean);
+      const text = blocks.length ? blocks.join('\n\n') : clean(contentRoot.innerText);
+      return { text };
+    },
+    {
+      kind,
+      selector: normalizeOptionalString(payload.selector) ?? null,
+      zoneRect,
+      coordinateSpace,
+    },
+  );
+
+  return { kind, url: page.url(), title: await page.title(), ...extracted };
+}
+
+/** Kept AX nodes beyond this are dropped (the snapshot reports `truncated`); huge pages would stall the bridge. */
+const MAX_AX_NODES = 2000;
+const AX_CALL_BATCH = 500;
+const AX_SKIPPED_ROLES = new Set(['generic', 'none', 'presentation', 'StaticText', 'InlineTextBox', 'LineBreak', 'RootWebArea']);
+const AX_STATE_PROPERTIES = [
+  'focusable',
+  'focused',
+  'disabled',
+  'checked',
+  'pressed',
+  'expanded',
+  'selected',
+  'required',
+  'readonly',
+  'invalid',
+  'modal',
+];
+
+/**
+ * Returns the page's accessibility tree from CDP as compact nodes (role, name, value, states),
+ * each with viewport/page bounds, a grid ref and a selector usable with `execute`.
+ * With `interestingOnly` (default), ignored and purely structural nodes are dropped and their
+ * children are lifted to the nearest kept ancestor.
+ */
+async function runAccessibilitySnapshot(context, page, payload) {
+  const interestingOnly = payload.interestingOnly !== false;
+  const coordinateSpace = normalizeCoordinateSpace(payload.coordinateSpace);
+  const cellSize = await resolveScanCellSize(page, coordinateSpace, normalizeGridOptions(payload));
+  let zone = null;
+  if (payload.zone) {
+    const start = parseCell(payload.zone.start);
+    const end = parseCell(payload.zone.end);
+    zone = {
+      minCol: Math.min(start.col, end.col),
+      maxCol: Math.max(start.col, end.col),
+      minRow: Math.min(start.row, end.row),
+      maxRow: Math.max(start.row, end.row),
+    };
+  }
+
+  const session = await context.newCDPSession(page);
+  try {
+    const { nodes } = await session.send('Accessibility.getFullAXTree');
+    const byId = new Map(nodes.map((node) => [node.nodeId, node]));
+    const isKept = (node) => {
+      if (!interestingOnly) return true;
+      if (node.ignored) return false;
+      const role = node.role?.value;
+      if (!role || AX_SKIPPED_ROLES.has(role)) return false;
+      const name = String(node.name?.value ?? '').trim();
+      const focusable = (node.properties || []).some((prop) => prop.name === 'focusable' && prop.value?.value);
+      return Boolean(name) || focusable;
+    };
+
+    const interesting = nodes.filter(isKept);
+    const view = await page.evaluate(() => ({
+      dpr: Math.max(0.01, Number(window.devicePixelRatio) || 1),
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+    }));
+
+    /** Converts viewport bounds to the requested space, with the grid ref and whether it meets the zone. */
+    const place = (viewportBounds) => {
+      const offscreen =
+        viewportBounds && (viewportBounds.x + viewportBounds.width <= 0 || viewportBounds.y + viewportBounds.height <= 0);
+      if (!viewportBounds || (offscreen && coordinateSpace === 'viewport')) return { inZone: !zone };
+      const originX = coordinateSpace === 'page' ? view.scrollX : 0;
+      const originY = coordinateSpace === 'page' ? view.scrollY : 0;
+      const bounds = {
+        x: Math.round(viewportBounds.x + originX),
+        y: Math.round(viewportBounds.y + originY),
+        width: Math.round(viewportBounds.width),
+        height: Math.round(viewportBounds.height),
+      };
+      const { minCol, maxCol, minRow, maxRow } = gridCellsForBox(bounds, view.dpr, cellSize);
+      return {
+        bounds,
+        gridRef: gridRefForCells({ minCol, maxCol, minRow, maxRow }),
+        inZone: !zone || (minCol <= zone.maxCol && maxCol >= zone.minCol && minRow <= zone.maxRow && maxRow >= zone.minRow),
+      };
+    };
+
+    // The cap applies to the nodes inside the zone, so a zone reaches nodes past the first MAX_AX_NODES.
+    // Without a zone every node matches, and only the first MAX_AX_NODES need resolving at all.
+    const candidates = zone ? interesting : interesting.slice(0, MAX_AX_NODES);
+    const { geometry, matched } = await describeAxNodes(
+      session,
+      candidates,
+      (bounds) => place(bounds).inZone,
+      MAX_AX_NODES,
+    );
+    const kept = matched.slice(0, MAX_AX_NODES);
+
+    const toSnapshotNode = (node) => {
+      const info = geometry.get(node.nodeId);
+      const result = {
+        id: `ax${node.nodeId}`,
+        role: String(node.role?.value ?? ''),
+        name: String(node.name?.value ?? '').trim() || undefined,
+        value: node.value?.value !== undefined && node.value.value !== '' ? String(node.value.value) : undefined,
+      };
+
+      const states = {};
+      for (const prop of node.properties || []) {
+        if (AX_STATE_PROPERTIES.includes(prop.name) && prop.value?.value !== undefined) {
+          states[prop.name] = prop.value.value;
+        }
+      }
+      if (Object.keys(states).length) result.states = states;
+
+      const { bounds, gridRef } = place(info?.bounds);
+      if (bounds) {
+        result.bounds = bounds;
+        result.gridRef = gridRef;
+      }
+      if (info?.selector) result.selector = info.selector;
+      return result;
+    };
+
+    // Build the compact tree: every kept node hangs under its nearest kept ancestor, so nodes inside
+    // the zone are lifted out of ancestors outside it.
+    const keptIds = new Set(kept.map((node) => node.nodeId));
+    const snapshotNodes = new Map(kept.map((node) => [node.nodeId, toSnapshotNode(node)]));
+    const roots = [];
+    for (const node of kept) {
+      const snapshot = snapshotNodes.get(node.nodeId);
+      let parentId = node.parentId;
+      while (parentId && !keptIds.has(parentId)) {
+        parentId = byId.get(parentId)?.parentId;
+      }
+      const parent = parentId ? snapshotNodes.get(parentId) : undefined;
+      if (parent) {
+        parent.children = parent.children || [];
+        parent.children.push(snapshot);
+      } else {
+        roots.push(snapshot);
+      }
+    }
+
+    return {
+      url: page.url(),
+      coordinateSpace,
+      cellSize,
+      nodes: roots,
+      truncated: matched.length > kept.length || interesting.length > candidates.length ? true : undefined,
+    };
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
+/**
+ * Resolves AX nodes to their DOM elements and reads viewport bounds for all of them, keeps the nodes
+ * whose bounds `inZone` accepts as `matched`, and builds selectors for the first `limit` of those.
+ * Node resolution is pipelined; bounds and selectors are read in batched calls instead of per node.
+ */
+async function describeAxNodes(session, nodes, inZone, limit) {
+  const described = new Map();
+  let matched = [];
+  const objectGroup = 'kazibee-ax';
+
+  try {
+    const resolved = await Promise.all(
+      nodes
+        .filter((node) => node.backendDOMNodeId)
+        .map((node) =>
+          session
+            .send('DOM.resolveNode', { backendNodeId: node.backendDOMNodeId, objectGroup })
+            .then(({ object }) => (object?.objectId ? { nodeId: node.nodeId, objectId: object.objectId } : null))
+            // Nodes can disappear while the tree is read; they are reported without bounds.
+            .catch(() => null),
+        ),
+    );
+    const elements = resolved.filter(Boolean);
+
+    const boundsList = await callOnAxElements(
+      session,
+      elements,
+      `function(...nodes) {
+        return nodes.map((node) => {
+          const el = node.nodeType === 1 ? node : node.parentElement;
+          if (!el) return { found: false };
+          const rect = el.getBoundingClientRect();
+          return {
+            found: true,
+            bounds: rect.width > 0 && rect.height > 0 ? { x: rect.x, y: rect.y, width: rect.width, height: rect.height } : null,
+          };
+        });
+      }`,
+    );
+    elements.forEach((element, index) => {
+      if (boundsList[index]?.found) described.set(element.nodeId, { bounds: boundsList[index].bounds });
+    });
+
+    matched = nodes.filter((node) => inZone(described.get(node.nodeId)?.bounds));
+    const selected = new Set(matched.slice(0, limit).map((node) => node.nodeId));
+    const needSelectors = elements.filter((element) => selected.has(element.nodeId) && described.has(element.nodeId));
+    const selectors = await callOnAxElements(
+      session,
+      needSelectors,
+      `function(...nodes) {
+        const helpers = ${inPageHelpersSource()};
+        const cache = new Map();
+        return nodes.map((node) => helpers.buildSelector(node.nodeType === 1 ? node : node.parentElement, { cache }));
+      }`,
+    );
+    needSelectors.forEach((element, index) => {
+      if (selectors[index]) described.get(element.nodeId).selector = selectors[index];
+    });
+  } finally {
+    await session.send('Runtime.releaseObjectGroup', { objectGroup }).catch(() => {});
+  }
+  return { geometry: described, matched };
+}
+
+/**
+ * Calls `functionDeclaration` with the elements as arguments, `AX_CALL_BATCH` at a time so a zone over a
+ * huge tree stays within the argument limit; returns the concatenated array results.
+ */
+async function callOnAxElements(session, elements, functionDeclaration) {
+  const values = [];
+  for (let start = 0; start < elements.length; start += AX_CALL_BATCH) {
+    const batch = elements.slice(start, start + AX_CALL_BATCH);
+    const { result, exceptionDetails } = await session.send('Runtime.callFunctionOn', {
+      objectId: batch[0].objectId,
+      functionDeclaration,
+      arguments: batch.map((element) => ({ objectId: element.objectId })),
+      returnByValue: true,
+    });
+    if (exceptionDetails) {
+      throw new Error(`Accessibility geometry failed: ${exceptionDetails.exception?.description || exceptionDetails.text}`);
+    }
+    const batchValues = Array.isArray(result?.value) ? result.value : [];
+    for (let index = 0; index < batch.length; index += 1) values.push(batchValues[index]);
+  }
+  return values;
+}
+
+async function runGridScreenshot(page, start, end, fullPage = false, gridOptions = normalizeGridOptions({})) {
+  const screenshotBuffer = await page.screenshot({
+    type: 'png',
+    fullPage,
+    scale: 'device',
+    mask: secretFieldMasks(page),
+  });
   const metadata = await sharp(screenshotBuffer).metadata();
   const width = metadata.width || 0;
   const height = metadata.height || 0;
@@ -420,8 +2155,10 @@ async function runGridScreenshot(page, start, end, fullPage = false) {
     throw new Error('Failed to determine screenshot dimensions.');
   }
 
-  const cols = Math.ceil(width / CELL_SIZE);
-  const rows = Math.ceil(height / CELL_SIZE);
+  const cellSize = resolveCellSize(gridOptions, width, height);
+  const cellLabels = gridOptions.cellLabels;
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
   const totalW = width + LABEL_MARGIN;
   const totalH = height + LABEL_MARGIN;
 
@@ -432,6 +2169,8 @@ async function runGridScreenshot(page, start, end, fullPage = false) {
     rows,
     colOffset: 0,
     rowOffset: 0,
+    cellSize,
+    cellLabels,
   });
 
   if (start && end) {
@@ -442,10 +2181,10 @@ async function runGridScreenshot(page, start, end, fullPage = false) {
     const minRow = Math.min(from.row, to.row);
     const maxRow = Math.max(from.row, to.row);
 
-    const contentLeft = Math.max(0, minCol * CELL_SIZE);
-    const contentTop = Math.max(0, minRow * CELL_SIZE);
-    const contentRight = Math.min(width, (maxCol + 1) * CELL_SIZE);
-    const contentBottom = Math.min(height, (maxRow + 1) * CELL_SIZE);
+    const contentLeft = Math.max(0, minCol * cellSize);
+    const contentTop = Math.max(0, minRow * cellSize);
+    const contentRight = Math.min(width, (maxCol + 1) * cellSize);
+    const contentBottom = Math.min(height, (maxRow + 1) * cellSize);
     const cropWidth = Math.max(1, contentRight - contentLeft);
     const cropHeight = Math.max(1, contentBottom - contentTop);
 
@@ -461,8 +2200,8 @@ async function runGridScreenshot(page, start, end, fullPage = false) {
 
     const cropTotalW = cropWidth + LABEL_MARGIN;
     const cropTotalH = cropHeight + LABEL_MARGIN;
-    const cropCols = Math.ceil(cropWidth / CELL_SIZE);
-    const cropRows = Math.ceil(cropHeight / CELL_SIZE);
+    const cropCols = Math.ceil(cropWidth / cellSize);
+    const cropRows = Math.ceil(cropHeight / cellSize);
 
     const cropSvg = buildGridOverlaySvg({
       contentWidth: cropWidth,
@@ -471,10 +2210,12 @@ async function runGridScreenshot(page, start, end, fullPage = false) {
       rows: cropRows,
       colOffset: minCol,
       rowOffset: minRow,
+      cellSize,
+      cellLabels,
     });
 
     const cropOverlay = await sharp(Buffer.from(cropSvg)).png().toBuffer();
-    return sharp({
+    const croppedImage = await sharp({
       create: {
         width: cropTotalW,
         height: cropTotalH,
@@ -488,10 +2229,22 @@ async function runGridScreenshot(page, start, end, fullPage = false) {
       ])
       .png()
       .toBuffer();
+    return {
+      image: croppedImage,
+      grid: {
+        cellSize,
+        labelMargin: LABEL_MARGIN,
+        cols: cropCols,
+        rows: cropRows,
+        colOffset: minCol,
+        rowOffset: minRow,
+        cellLabels,
+      },
+    };
   }
 
   const fullOverlay = await sharp(Buffer.from(svg)).png().toBuffer();
-  return sharp({
+  const fullImage = await sharp({
     create: {
       width: totalW,
       height: totalH,
@@ -505,9 +2258,114 @@ async function runGridScreenshot(page, start, end, fullPage = false) {
     ])
     .png()
     .toBuffer();
+  return {
+    image: fullImage,
+    grid: {
+      cellSize,
+      labelMargin: LABEL_MARGIN,
+      cols,
+      rows,
+      colOffset: 0,
+      rowOffset: 0,
+      cellLabels,
+    },
+  };
+}
+
+/**
+ * Set-of-marks screenshot: scans the zone (the whole viewport or page by default), then draws a
+ * numbered box over every visible element it found. Marks are numbered top to bottom, left to
+ * right, and the image is cropped to the zone's cells when a zone is given.
+ */
+async function runMarkedScreenshot(page, zone, coordinateSpace, gridOptions) {
+  const fullPage = coordinateSpace === 'page';
+  const screenshotBuffer = await page.screenshot({
+    type: 'png',
+    fullPage,
+    scale: 'device',
+    mask: secretFieldMasks(page),
+  });
+  const metadata = await sharp(screenshotBuffer).metadata();
+  const width = metadata.width || 0;
+  const height = metadata.height || 0;
+  if (!width || !height) {
+    throw new Error('Failed to determine screenshot dimensions.');
+  }
+
+  const cellSize = resolveCellSize(gridOptions, width, height);
+  const lastCell = `${colLabel(Math.ceil(width / cellSize) - 1)}${Math.ceil(height / cellSize)}`;
+  const scanZone = zone?.start && zone?.end ? zone : { start: 'A1', end: lastCell };
+  const scanned = await runSingleZoneScanWithRetry(page, scanZone, coordinateSpace, cellSize);
+  const dpr = await page.evaluate(() => Math.max(0.01, Number(window.devicePixelRatio) || 1));
+
+  const from = parseCell(scanZone.start);
+  const to = parseCell(scanZone.end);
+  const left = Math.min(width - 1, Math.min(from.col, to.col) * cellSize);
+  const top = Math.min(height - 1, Math.min(from.row, to.row) * cellSize);
+  const crop = {
+    left,
+    top,
+    width: Math.max(1, Math.min(width, (Math.max(from.col, to.col) + 1) * cellSize) - left),
+    height: Math.max(1, Math.min(height, (Math.max(from.row, to.row) + 1) * cellSize) - top),
+  };
+
+  const placed = scanned.elements
+    .filter((element) => element.visible !== false)
+    .map((element) => {
+      const box = fullPage ? element.pageBox : element.boundingBox;
+      return {
+        element,
+        x: Math.round(box.x * dpr - crop.left),
+        y: Math.round(box.y * dpr - crop.top),
+        width: Math.max(1, Math.round(box.width * dpr)),
+        height: Math.max(1, Math.round(box.height * dpr)),
+      };
+    })
+    .filter((box) => box.x < crop.width && box.y < crop.height && box.x + box.width > 0 && box.y + box.height > 0)
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .map((box, index) => ({ ...box, mark: index + 1 }));
+
+  const content = await sharp(screenshotBuffer).extract(crop).png().toBuffer();
+  const overlay = buildMarksOverlaySvg(crop.width, crop.height, placed);
+  const image = await sharp(content)
+    .composite([{ input: Buffer.from(overlay), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+
+  return {
+    imageBase64: image.toString('base64'),
+    zone: scanned.zone,
+    cellSize,
+    marks: placed.map(({ mark, element }) => ({ mark, element })),
+  };
+}
+
+/** Outlines each marked box and puts its number in a filled badge at the box's top-left corner. */
+function buildMarksOverlaySvg(width, height, marks) {
+  const colors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#9a6324', '#800000'];
+  let svg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">`;
+  for (const box of marks) {
+    const color = colors[(box.mark - 1) % colors.length];
+    svg += `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="none" stroke="${color}" stroke-width="2"/>`;
+  }
+
+  // Badges go on top of every outline so neighbouring boxes cannot hide a number.
+  const fontSize = 12;
+  for (const box of marks) {
+    const color = colors[(box.mark - 1) % colors.length];
+    const label = String(box.mark);
+    const badgeWidth = 6 + Math.ceil(label.length * fontSize * 0.67);
+    const badgeHeight = fontSize + 4;
+    const badgeX = Math.min(Math.max(0, box.x), Math.max(0, width - badgeWidth));
+    const badgeY = box.y >= badgeHeight ? box.y - badgeHeight : Math.max(0, box.y);
+    svg += `<rect x="${badgeX}" y="${badgeY}" width="${badgeWidth}" height="${badgeHeight}" rx="2" ry="2" fill="${color}"/>`;
+    svg += `<text x="${badgeX + 3}" y="${badgeY + fontSize}" font-size="${fontSize}" font-weight="bold" fill="#ffffff">${label}</text>`;
+  }
+  svg += '</svg>';
+  return svg;
 }
 
-function buildGridOverlaySvg({ contentWidth, contentHeight, cols, rows, colOffset, rowOffset }) {
+function buildGridOverlaySvg({ contentWidth, contentHeight, cols, rows, colOffset, rowOffset, cellSize, cellLabels }) {
   const totalW = LABEL_MARGIN + contentWidth;
   const totalH = LABEL_MARGIN + contentHeight;
 
@@ -516,38 +2374,45 @@ function buildGridOverlaySvg({ contentWidth, contentHeight, cols, rows, colOffse
   svg += `<rect x="0" y="0" width="${totalW}" height="${LABEL_MARGIN}" fill="white"/>`;
 
   for (let c = 0; c < cols; c += 1) {
-    const x = LABEL_MARGIN + c * CELL_SIZE + CELL_SIZE / 2;
+    const x = LABEL_MARGIN + c * cellSize + cellSize / 2;
     svg += `<text x="${x}" y="35" font-size="12" text-anchor="middle" fill="#cc0000">${colLabel(colOffset + c)}</text>`;
   }
 
   for (let r = 0; r < rows; r += 1) {
-    const y = LABEL_MARGIN + r * CELL_SIZE + CELL_SIZE / 2 + 4;
+    const y = LABEL_MARGIN + r * cellSize + cellSize / 2 + 4;
     svg += `<text x="25" y="${y}" font-size="12" text-anchor="middle" fill="#cc0000">${rowOffset + r + 1}</text>`;
   }
 
   for (let x = 0; x <= cols; x += 1) {
-    const px = Math.min(totalW, LABEL_MARGIN + x * CELL_SIZE);
+    const px = Math.min(totalW, LABEL_MARGIN + x * cellSize);
     svg += `<line x1="${px}" y1="${LABEL_MARGIN}" x2="${px}" y2="${totalH}" stroke="rgba(255,0,0,0.3)" stroke-width="1"/>`;
   }
 
   for (let y = 0; y <= rows; y += 1) {
-    const py = Math.min(totalH, LABEL_MARGIN + y * CELL_SIZE);
+    const py = Math.min(totalH, LABEL_MARGIN + y * cellSize);
     svg += `<line x1="${LABEL_MARGIN}" y1="${py}" x2="${totalW}" y2="${py}" stroke="rgba(255,0,0,0.3)" stroke-width="1"/>`;
   }
 
+  if (!cellLabels) {
+    svg += '</svg>';
+    return svg;
+  }
+
   // Add per-cell labels with dark background for deterministic readability.
+  // Small cells get a smaller font so labels do not hide the cell content.
+  const fontSize = Math.max(8, Math.min(12, Math.floor(cellSize / 6)));
   for (let r = 0; r < rows; r += 1) {
     for (let c = 0; c < cols; c += 1) {
       const label = `${colLabel(colOffset + c)}${rowOffset + r + 1}`;
-      const boxWidth = Math.min(CELL_SIZE - 4, Math.max(22, 8 + label.length * 8));
-      const boxHeight = 16;
-      const boxX = LABEL_MARGIN + c * CELL_SIZE + 2;
-      const boxY = LABEL_MARGIN + r * CELL_SIZE + 2;
+      const boxWidth = Math.min(cellSize - 4, Math.max(fontSize * 2, 8 + Math.ceil(label.length * fontSize * 0.67)));
+      const boxHeight = fontSize + 4;
+      const boxX = LABEL_MARGIN + c * cellSize + 2;
+      const boxY = LABEL_MARGIN + r * cellSize + 2;
       const textX = boxX + 3;
-      const textY = boxY + 12;
+      const textY = boxY + fontSize;
 
       svg += `<rect x="${boxX}" y="${boxY}" width="${boxWidth}" height="${boxHeight}" rx="2" ry="2" fill="rgba(0,0,0,0.7)"/>`;
-      svg += `<text x="${textX}" y="${textY}" font-size="12" fill="#ffffff" text-anchor="start">${label}</text>`;
+      svg += `<text x="${textX}" y="${textY}" font-size="${fontSize}" fill="#ffffff" text-anchor="start">${label}</text>`;
     }
   }
 
@@ -555,6 +2420,310 @@ function buildGridOverlaySvg({ contentWidth, contentHeight, cols, rows, colOffse
   return svg;
 }
 
+function normalizeGridOptions(payload) {
+  const positive = (value) => {
+    const parsed = Math.floor(Number(value));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  };
+  return {
+    cellSize: positive(payload.cellSize),
+    gridColumns: positive(payload.gridColumns),
+    gridRows: positive(payload.gridRows),
+    cellLabels: payload.cellLabels !== false,
+  };
+}
+
+/**
+ * Picks the cell size in image pixels: an explicit `cellSize` wins; otherwise the smallest size
+ * that fits the image into at most `gridColumns` x `gridRows` cells.
+ */
+function resolveCellSize(gridOptions, imageWidth, imageHeight) {
+  let size = gridOptions.cellSize;
+  if (!size && (gridOptions.gridColumns || gridOptions.gridRows)) {
+    const byColumns = gridOptions.gridColumns ? Math.ceil(imageWidth / gridOptions.gridColumns) : 0;
+    const byRows = gridOptions.gridRows ? Math.ceil(imageHeight / gridOptions.gridRows) : 0;
+    size = Math.max(byColumns, byRows);
+  }
+  return Math.min(MAX_CELL_SIZE, Math.max(MIN_CELL_SIZE, size || DEFAULT_CELL_SIZE));
+}
+
+/** Viewport CSS-pixel box of the first element matching `selector`, or null when it is absent or hidden. */
+async function readBoundingBox(page, selector) {
+  const handle = await page.$(selector);
+  if (!handle) return null;
+  try {
+    return await handle.boundingBox();
+  } finally {
+    await handle.dispose();
+  }
+}
+
+/**
+ * Converts a grid cell into a viewport CSS-pixel point for mouse input. The grid is drawn on
+ * screenshot image pixels, so the point is divided by the DPR exactly like zone bounds in
+ * `runSingleZoneScanWithRetry`. Page-space cells outside the viewport are scrolled to the center
+ * first; `alwaysCenter` scrolls even when the cell is already visible (viewport cells scroll relative
+ * to the current position). `offset` is the fractional position inside the cell (default center).
+ */
+async function resolveCellPoint(page, cellRef, { cellSize, coordinateSpace, offset, alwaysCenter = false }) {
+  const { col, row } = parseCell(cellRef);
+  const size = resolveCellSize(normalizeGridOptions({ cellSize }), 0, 0);
+  const imageX = (col + normalizeCellOffset(offset?.x)) * size;
+  const imageY = (row + normalizeCellOffset(offset?.y)) * size;
+
+  return page.evaluate(
+    ({ imageX, imageY, space, alwaysCenter }) => {
+      const dpr = Math.max(0.01, Number(window.devicePixelRatio) || 1);
+      const x = imageX / dpr;
+      const y = imageY / dpr;
+      const originX = space === 'page' ? 0 : window.scrollX;
+      const originY = space === 'page' ? 0 : window.scrollY;
+      const absX = originX + x;
+      const absY = originY + y;
+
+      const visible =
+        absX >= window.scrollX &&
+        absX < window.scrollX + window.innerWidth &&
+        absY >= window.scrollY &&
+        absY < window.scrollY + window.innerHeight;
+      if (alwaysCenter || !visible) {
+        window.scrollTo({
+          left: Math.max(0, absX - window.innerWidth / 2),
+          top: Math.max(0, absY - window.innerHeight / 2),
+          behavior: 'instant',
+        });
+      }
+
+      return { x: absX - window.scrollX, y: absY - window.scrollY };
+    },
+    { imageX, imageY, space: normalizeCoordinateSpace(coordinateSpace), alwaysCenter },
+  );
+}
+
+function normalizeCellOffset(value) {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return 0.5;
+  return Math.min(1, Math.max(0, parsed));
+}
+
+/**
+ * Evaluates `fn({ helpers, ...arg })` on a page or frame, or `fn(element, { helpers, ...arg })` on an
+ * element handle. Functions cannot be evaluate arguments, so the shared in-page helpers are built from
+ * their source as a handle in the target's frame and passed by reference.
+ */
+async function evaluateWithHelpers(target, fn, arg = {}) {
+  const frame = typeof target.ownerFrame === 'function' ? await target.ownerFrame() : target;
+  if (!frame) throw new Error('Element is not attached to a frame.');
+  const helpers = await frame.evaluateHandle(`(${inPageHelpersSource()})`);
+  try {
+    return await target.evaluate(fn, { ...arg, helpers });
+  } finally {
+    await helpers.dispose().catch(() => {});
+  }
+}
+
+function inPageHelpersSource() {
+  return `{
+    selectorCandidates: ${selectorCandidatesInPage},
+    buildSelector: (el, options) => (${selectorCandidatesInPage})(el, { ...options, limit: 1 })[0],
+  }`;
+}
+
+/**
+ * Runs in the page: selectors for `el`, best first. Stable attributes (test ids, id, name,
+ * aria-label), a role with its accessible name and short exact text are kept only when they
+ * match nothing else in the element's root; the id-anchored `:nth-of-type` path comes last and
+ * only when fewer than `limit` others were found. Elements in open shadow roots get one segment
+ * per shadow host, joined with Playwright's `>>` chaining. Pass one `cache` to every call of a scan.
+ * Must stay self-contained because its source is injected into the page.
+ */
+function selectorCandidatesInPage(el, { limit = Infinity, cache = new Map() } = {}) {
+  const MAX_VALUE_LENGTH = 80;
+  const MAX_TEXT_LENGTH = 40;
+  const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy'];
+
+  const escapeCss = (value) => {
+    if (window.CSS && typeof window.CSS.escape === 'function') {
+      return window.CSS.escape(String(value));
+    }
+    return String(value).replace(/[^a-zA-Z0-9_-]/g, (ch) => `\\${ch}`);
+  };
+
+  const normalizeText = (value) => String(value || '').replace(/\s+/g, ' ').trim();
+  const usableValue = (value) => {
+    const text = String(value || '');
+    return text.trim() && text.length <= MAX_VALUE_LENGTH && !/[\n\r]/.test(text) ? text : '';
+  };
+
+  // Playwright's css and role engines pierce open shadow roots, so uniqueness is counted the same way:
+  // one native query per root. A scope's roots are found once and shared through `cache` across calls.
+  const rootsOf = (scope) => {
+    if (cache.has(scope)) return cache.get(scope);
+    const roots = [scope];
+    if (scope instanceof Element && scope.shadowRoot) roots.push(scope.shadowRoot);
+    for (let i = 0; i < roots.length; i += 1) {
+      roots[i].querySelectorAll('*').forEach((node) => {
+        if (node.shadowRoot) roots.push(node.shadowRoot);
+      });
+    }
+    cache.set(scope, roots);
+    return roots;
+  };
+  const countCss = (scope, css) => rootsOf(scope).reduce((count, root) => count + root.querySelectorAll(css).length, 0);
+  const isUniqueCss = (scope, css) => {
+    try {
+      return countCss(scope, css) === 1;
+    } catch {
+      // Not valid CSS for this value; never a candidate.
+      return false;
+    }
+  };
+  const countDeep = (scope, query, matches) =>
+    rootsOf(scope).reduce((count, root) => count + Array.from(root.querySelectorAll(query)).filter(matches).length, 0);
+
+  const implicitRole = (node) => {
+    const explicit = normalizeText(node.getAttribute('role')).split(' ')[0];
+    if (explicit) return explicit;
+    const tag = node.tagName;
+    if (tag === 'BUTTON') return 'button';
+    if (tag === 'A' && node.hasAttribute('href')) return 'link';
+    if (tag === 'TEXTAREA') return 'textbox';
+    if (tag === 'SELECT') return node.multiple || node.size > 1 ? 'listbox' : 'combobox';
+    if (tag === 'INPUT') {
+      const type = String(node.type || 'text').toLowerCase();
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox') return 'checkbox';
+      if (type === 'radio') return 'radio';
+      if (type === 'range') return 'slider';
+      if (type === 'number') return 'spinbutton';
+      if (['text', 'email', 'search', 'tel', 'url', ''].includes(type)) return node.hasAttribute('list') ? 'combobox' : 'textbox';
+    }
+    return '';
+  };
+
+  // Approximates the accessible name Playwright's role engine computes for the common cases.
+  const accessibleName = (node) => {
+    const labelledBy = normalizeText(node.getAttribute('aria-labelledby'));
+    if (labelledBy) {
+      const root = node.getRootNode();
+      const text = labelledBy
+        .split(' ')
+        .map((id) => (root.getElementById ? root.getElementById(id) : null))
+        .filter(Boolean)
+        .map((label) => normalizeText(label.textContent))
+        .join(' ');
+      if (text) return text;
+    }
+    const ariaLabel = normalizeText(node.getAttribute('aria-label'));
+    if (ariaLabel) return ariaLabel;
+    if (node.labels && node.labels.length) {
+      const text = Array.from(node.labels)
+        .map((label) => normalizeText(label.textContent))
+        .join(' ');
+      if (text) return text;
+    }
+    if (node.tagName === 'INPUT') {
+      const type = String(node.type || '').toLowerCase();
+      if (['button', 'submit', 'reset'].includes(type)) return normalizeText(node.value);
+      if (type === 'image') return normalizeText(node.alt);
+      return normalizeText(node.title || node.placeholder);
+    }
+    if (['SELECT', 'TEXTAREA'].includes(node.tagName)) return normalizeText(node.title);
+    return normalizeText(node.textContent || node.title);
+  };
+
+  const segmentForNode = (node) => {
+    const tag = node.tagName.toLowerCase();
+    const parent = node.parentElement || (node.parentNode instanceof ShadowRoot ? node.parentNode : null);
+    if (!parent) return tag;
+
+    const sameTagSiblings = Array.from(parent.children).filter((child) => child.tagName === node.tagName);
+    if (sameTagSiblings.length <= 1) return tag;
+    const position = sameTagSiblings.indexOf(node) + 1;
+    return `${tag}:nth-of-type(${position})`;
+  };
+
+  // Anchors the path on the nearest ancestor id that keeps it unique; a duplicate id pushes the anchor further
+  // up, ending at a full path from the root. Returns '' when even that matches more than one element.
+  const structuralSelector = (target, scope) => {
+    const segments = [];
+    for (let node = target; node && node.tagName; node = node.parentElement) {
+      const tag = node.tagName.toLowerCase();
+      if (tag === 'html') {
+        segments.unshift(tag);
+        break;
+      }
+      if (node.id) {
+        const anchored = [`${tag}#${escapeCss(node.id)}`, ...segments].join(' > ');
+        if (isUniqueCss(scope, anchored)) return anchored;
+      }
+      segments.unshift(segmentForNode(node));
+    }
+    const path = segments.join(' > ');
+    return isUniqueCss(scope, path) ? path : '';
+  };
+
+  // Stops as soon as `max` unique candidates are found; the structural path is the last resort.
+  const candidatesWithinScope = (target, scope, max) => {
+    const tag = target.tagName.toLowerCase();
+    const candidates = [];
+    const done = () => candidates.length >= max;
+    const addCss = (css) => {
+      if (!done() && isUniqueCss(scope, css)) candidates.push(css);
+    };
+
+    TEST_ID_ATTRIBUTES.forEach((attribute) => {
+      const value = usableValue(target.getAttribute(attribute));
+      if (value) addCss(`[${attribute}=${JSON.stringify(value)}]`);
+    });
+    if (usableValue(target.id)) addCss(`${tag}#${escapeCss(target.id)}`);
+    const name = usableValue(target.getAttribute('name'));
+    if (name) addCss(`${tag}[name=${JSON.stringify(name)}]`);
+    const ariaLabel = usableValue(target.getAttribute('aria-label'));
+    if (ariaLabel) addCss(`${tag}[aria-label=${JSON.stringify(ariaLabel)}]`);
+
+    const role = done() ? '' : implicitRole(target);
+    const roleName = role ? usableValue(accessibleName(target)) : '';
+    if (roleName) {
+      const sameRoleAndName = countDeep(
+        scope,
+        '*',
+        (node) => implicitRole(node) === role && accessibleName(node) === roleName,
+      );
+      if (sameRoleAndName === 1) candidates.push(`role=${role}[name=${JSON.stringify(roleName)}s]`);
+    }
+
+    const text = done() ? '' : normalizeText(target.textContent);
+    if (text && text.length <= MAX_TEXT_LENGTH && !target.children.length) {
+      const sameText = countDeep(scope, tag, (node) => normalizeText(node.textContent) === text);
+      if (sameText === 1) candidates.push(`${tag}:text-is(${JSON.stringify(text)})`);
+    }
+
+    const structural = done() ? '' : structuralSelector(target, scope);
+    if (structural) candidates.push(structural);
+    return Array.from(new Set(candidates));
+  };
+
+  // Shadow hosts from the outermost down, each addressed by its best selector.
+  const hosts = [];
+  let root = el.getRootNode();
+  while (root instanceof ShadowRoot) {
+    hosts.unshift(root.host);
+    root = root.host.getRootNode();
+  }
+
+  let prefix = '';
+  let scope = /** @type {Document | Element} */ (document);
+  for (const host of hosts) {
+    const [hostSelector] = candidatesWithinScope(host, scope, 1);
+    // A host no unique selector reaches makes every selector inside it ambiguous.
+    if (!hostSelector) return [];
+    prefix += `${hostSelector} >> `;
+    scope = host;
+  }
+  return candidatesWithinScope(el, scope, limit).map((selector) => `${prefix}${selector}`);
+}
+
 function requireSelector(value) {
   const selector = String(value || '').trim();
   if (!selector) throw new Error('selector is required.');
@@ -634,6 +2803,24 @@ function normalizeCoordinateSpace(value) {
   return mode === 'page' ? 'page' : 'viewport';
 }
 
+/** Inclusive grid cells (drawn on image pixels) covered by a CSS-pixel box. */
+function gridCellsForBox(box, dpr, cellSize) {
+  const minCol = Math.max(0, Math.floor((box.x * dpr) / cellSize));
+  const minRow = Math.max(0, Math.floor((box.y * dpr) / cellSize));
+  return {
+    minCol,
+    maxCol: Math.max(minCol, Math.floor(((box.x + box.width) * dpr - 1) / cellSize)),
+    minRow,
+    maxRow: Math.max(minRow, Math.floor(((box.y + box.height) * dpr - 1) / cellSize)),
+  };
+}
+
+function gridRefForCells({ minCol, maxCol, minRow, maxRow }) {
+  const first = `${colLabel(minCol)}${minRow + 1}`;
+  const last = `${colLabel(maxCol)}${maxRow + 1}`;
+  return first === last ? first : `${first}:${last}`;
+}
+
 function colLabel(index) {
   let i = index;
   let label = '';
@@ -670,7 +2857,12 @@ async function fetchJson(url) {
   return response.json();
 }
 
-main().catch((error) => {
-  process.stderr.write(String(error && error.stack ? error.stack : error));
-  process.exit(1);
-});
+// Exported for the offline tests, which import the bridge instead of running it.
+export { runAccessibilitySnapshot, runImportState, selectorCandidatesInPage };
+
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  main().catch((error) => {
+    process.stderr.write(String(error && error.stack ? error.stack : error));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { GlobalRegistrator } from '@happy-dom/global-registrator';
+import { runAccessibilitySnapshot, runImportState, selectorCandidatesInPage } from './cdp-bridge.mjs';
+
+interface FakeAxNode {
+  nodeId: string;
+  parentId?: string;
+  backendDOMNodeId?: number;
+  role: { value: string };
+  name?: { value: string };
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A fake page and CDP session over `count` buttons stacked 10px apart down a 1000x800 viewport.
+ * The in-page calls are answered from the button boxes instead of a DOM.
+ */
+function fakeAxPage(count: number) {
+  const nodes: FakeAxNode[] = [{ nodeId: 'root', role: { value: 'RootWebArea' } }];
+  const boxes = new Map<string, Box>();
+  for (let i = 0; i < count; i += 1) {
+    nodes.push({ nodeId: `n${i}`, parentId: 'root', backendDOMNodeId: i + 1, role: { value: 'button' }, name: { value: `b${i}` } });
+    boxes.set(`obj${i + 1}`, { x: 0, y: i * 10, width: 50, height: 10 });
+  }
+
+  const session = {
+    send: async (method: string, params: Record<string, unknown> = {}) => {
+      if (method === 'Accessibility.getFullAXTree') return { nodes };
+      if (method === 'DOM.resolveNode') return { object: { objectId: `obj${params.backendNodeId}` } };
+      if (method === 'Runtime.callFunctionOn') {
+        const args = params.arguments as { objectId: string }[];
+        const wantsBounds = String(params.functionDeclaration).includes('getBoundingClientRect');
+        return {
+          result: {
+            value: args.map(({ objectId }) =>
+              wantsBounds ? { found: true, bounds: boxes.get(objectId) } : `#${objectId}`,
+            ),
+          },
+        };
+      }
+      return {};
+    },
+    detach: async () => {},
+  };
+  const page = {
+    url: () => 'https://example.test/',
+    evaluate: async (_fn: unknown, arg?: unknown) =>
+      arg === 'viewport' || arg === 'page' ? { width: 1000, height: 800 } : { dpr: 1, scrollX: 0, scrollY: 0 },
+  };
+  const context = { newCDPSession: async () => session };
+  return { context, page };
+}
+
+describe('runAccessibilitySnapshot', () => {
+  test('caps the node count and reports truncated', async () => {
+    const { context, page } = fakeAxPage(2500);
+    const snapshot = await runAccessibilitySnapshot(context, page, {});
+    expect(snapshot.nodes).toHaveLength(2000);
+    expect(snapshot.truncated).toBe(true);
+  });
+
+  test('a zone reaches nodes past the first 2000', async () => {
+    const { context, page } = fakeAxPage(2500);
+    // Buttons 2400-2499 sit at y 24000-24990, rows 241-250 of the 100px grid.
+    const snapshot = await runAccessibilitySnapshot(context, page, { zone: { start: 'A241', end: 'A250' } });
+    expect(snapshot.nodes).toHaveLength(100);
+    expect(snapshot.nodes[0]).toMatchObject({ name: 'b2400', gridRef: 'A241', selector: '#obj2401' });
+    expect(snapshot.nodes[99].name).toBe('b2499');
+    expect(snapshot.truncated).toBeUndefined();
+  });
+
+  test('sizes the grid from gridColumns like scanZones', async () => {
+    const { context, page } = fakeAxPage(100);
+    const snapshot = await runAccessibilitySnapshot(context, page, { gridColumns: 5, zone: { start: 'A3', end: 'A3' } });
+    expect(snapshot.cellSize).toBe(200);
+    expect(snapshot.nodes.map((node: { name: string }) => node.name)).toEqual(
+      Array.from({ length: 20 }, (_, i) => `b${i + 40}`),
+    );
+  });
+});
+
+describe('selectorCandidatesInPage', () => {
+  beforeAll(() => GlobalRegistrator.register());
+  afterAll(() => GlobalRegistrator.unregister());
+
+  const candidatesFor = (html: string, targetCss: string): string[] => {
+    document.body.innerHTML = html;
+    const target = document.querySelectorAll(targetCss);
+    return selectorCandidatesInPage(target[target.length - 1]);
+  };
+
+  test('anchors the structural path on a unique ancestor id', () => {
+    const candidates = candidatesFor('<div id="panel"><ul><li>one</li><li>two</li></ul></div>', 'li');
+    expect(candidates).toEqual(['li:text-is("two")', 'div#panel > ul > li:nth-of-type(2)']);
+  });
+
+  test('extends the structural path past a duplicate id', () => {
+    const candidates = candidatesFor(
+      '<div id="dup"><span>a</span><button>Save</button></div><div id="dup"><button>Save</button></div>',
+      'button',
+    );
+    expect(candidates).toEqual(['html > body > div:nth-of-type(2) > button']);
+    expect(document.querySelectorAll(candidates[0])).toHaveLength(1);
+  });
+});
+
+describe('runImportState', () => {
+  test('restores sessionStorage into open tabs only and reports the skipped origins', async () => {
+    const writes: { url: string; entry: Record<string, unknown> }[] = [];
+    const fakePage = (url: string) => ({
+      url: () => url,
+      route: async () => {},
+      goto: async () => {},
+      close: async () => {},
+      evaluate: async (_fn: unknown, entry: Record<string, unknown>) => {
+        writes.push({ url, entry });
+      },
+    });
+    const context = {
+      addCookies: async () => {},
+      pages: () => [fakePage('https://open.test/app')],
+      newPage: async () => fakePage('https://closed.test'),
+    };
+    const item = [{ name: 'k', value: 'v' }];
+
+    const result = await runImportState(context, {
+      cookies: [],
+      origins: [
+        { origin: 'https://open.test', localStorage: item, sessionStorage: item },
+        { origin: 'https://closed.test', localStorage: item, sessionStorage: item },
+        { origin: 'https://session-only.test', localStorage: [], sessionStorage: item },
+      ],
+    });
+
+    expect(result).toEqual({
+      cookies: 0,
+      origins: 2,
+      skippedSessionStorage: ['https://closed.test', 'https://session-only.test'],
+    });
+    expect(writes.map(({ url, entry }) => [url, entry.sessionStorage])).toEqual([
+      ['https://open.test/app', item],
+      ['https://closed.test', []],
+    ]);
+  });
+});
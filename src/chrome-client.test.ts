@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { createServer, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import main from './index';
+import { createFakeVisionProvider } from './vision-provider';
+
+// Offline harness: a fake CDP HTTP endpoint makes the client treat Chrome as running, and a fake
+// bridge server on the client's socket path answers `gridScreenshot` with a blank image.
+let cdp: ReturnType<typeof Bun.serve>;
+let bridge: Server;
+let stateDir: string;
+let env: Record<string, string>;
+let bridgeCalls: string[] = [];
+
+beforeAll(async () => {
+  stateDir = mkdtempSync(join(tmpdir(), 'kazibee-client-test-'));
+  cdp = Bun.serve({
+    port: 0,
+    fetch: (req) =>
+      new URL(req.url).pathname === '/json/version' ? Response.json({ Browser: 'FakeChrome/1.0' }) : Response.json([]),
+  });
+  const cdpUrl = `http://127.0.0.1:${cdp.port}`;
+  env = {
+    CHROME_CDP_URL: cdpUrl,
+    CHROME_USER_DATA_DIR: stateDir,
+    CHROME_LABELS_CACHE: 'off',
+    CHROME_NEAR_DUPLICATE_THRESHOLD: '0',
+  };
+
+  const image = await sharp({ create: { width: 200, height: 200, channels: 3, background: 'white' } })
+    .png()
+    .toBuffer();
+  const grid = { cellSize: 100, labelMargin: 0, cols: 2, rows: 2, colOffset: 0, rowOffset: 0 };
+  const socketDir = join(tmpdir(), `kazibee-chrome-bridge-${process.getuid?.() ?? 'user'}`);
+  mkdirSync(socketDir, { recursive: true, mode: 0o700 });
+  const socketPath = join(socketDir, `bridge-${createHash('sha1').update(cdpUrl).digest('hex').slice(0, 12)}.sock`);
+  rmSync(socketPath, { force: true });
+
+  bridge = createServer((socket) => {
+    socket.setEncoding('utf8');
+    socket.on('error', () => {});
+    socket.on('data', (line) => {
+      const request = JSON.parse(String(line).trim()) as { id: number; method: string };
+      bridgeCalls.push(request.method);
+      const result =
+        request.method === 'gridScreenshot' ? { imageBase64: image.toString('base64'), grid, tabId: 'tab-1' } : {};
+      socket.write(`${JSON.stringify({ jsonrpc: '2.0', id: request.id, result })}\n`);
+    });
+  });
+  await new Promise<void>((resolve) => bridge.listen(socketPath, resolve));
+});
+
+afterAll(() => {
+  bridge.close();
+  cdp.stop(true);
+  rmSync(stateDir, { recursive: true, force: true });
+});
+
+const labelsAnswer = (text: string) =>
+  JSON.stringify({
+    pageSummary: 'Login page',
+    pageType: 'login',
+    layoutRegions: [{ gridRange: 'A1:B2', regionType: 'main', purpose: 'Sign-in form' }],
+    interactiveElements: [{ id: 'submit', gridRef: 'B2', elementType: 'button', text, likelyActions: ['click'] }],
+  });
+
+describe('vision calls with a fake provider', () => {
+  test('labels sends the screenshot and normalizes the answer', async () => {
+    bridgeCalls = [];
+    const provider = createFakeVisionProvider(labelsAnswer('Sign in'));
+    const result = await main(env).labels({ provider });
+
+    expect(bridgeCalls).toEqual(['gridScreenshot']);
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].imageBase64).toBeTruthy();
+    expect(result.interactiveElements[0]).toMatchObject({ id: 'submit', gridRef: 'B2', text: 'Sign in' });
+    expect(result).toMatchObject({ gridSpace: 'viewport', cellSize: 100, cacheHit: false, model: 'fake-vision' });
+  });
+
+  test('labels cache entries are not shared between fake providers', async () => {
+    const diskEnv = { ...env, CHROME_LABELS_CACHE: 'disk' };
+    const first = createFakeVisionProvider(labelsAnswer('First'));
+    const second = createFakeVisionProvider(labelsAnswer('Second'));
+
+    expect((await main(diskEnv).labels({ provider: first })).interactiveElements[0].text).toBe('First');
+    const other = await main(diskEnv).labels({ provider: second });
+    expect(other).toMatchObject({ cacheHit: false });
+    expect(other.interactiveElements[0].text).toBe('Second');
+    expect(await main(diskEnv).labels({ provider: first })).toMatchObject({ cacheHit: true });
+    expect(first.requests).toHaveLength(1);
+  });
+
+  test('labelsOverview returns the model regions in page space', async () => {
+    const provider = createFakeVisionProvider(
+      JSON.stringify({ pageSummary: 'Docs', pageType: 'article', regions: [{ gridRange: 'A1:B1', description: 'Header' }] }),
+    );
+    const result = await main(env).labelsOverview({ provider });
+
+    expect(result.regions).toEqual([{ gridRange: 'A1:B1', description: 'Header' }]);
+    expect(result.gridSpace).toBe('page');
+  });
+
+  test('findInteractiveElement falls back to the extreme pass when the high pass has no match', async () => {
+    const provider = createFakeVisionProvider([labelsAnswer('Cancel'), labelsAnswer('Sign in')]);
+    const element = await main(env).findInteractiveElement('sign in', { provider });
+
+    expect(element).toMatchObject({ id: 'submit', text: 'Sign in' });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  test('findInteractiveElement fails when no labeled element matches', async () => {
+    const provider = createFakeVisionProvider(labelsAnswer('Cancel'));
+    await expect(main(env).findInteractiveElement('checkout', { provider })).rejects.toThrow(
+      'No interactive element matched query "checkout"',
+    );
+  });
+});
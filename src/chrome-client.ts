@@ -1,15 +1,44 @@
 import { spawn, spawnSync } from 'node:child_process';
-import { mkdirSync, writeFileSync } from 'node:fs';
-import { dirname, resolve } from 'node:path';
+import { createHash } from 'node:crypto';
+import { chmodSync, existsSync, lstatSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { connect } from 'node:net';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { AuthConfig } from './auth';
+import { readCredentialVault, writeCredentialVault } from './credential-vault';
+import { cellLabel, parseGridRef } from './grid';
+import {
+  labelsCacheKey,
+  readLabelsCache,
+  writeLabelsCache,
+  type LabelsCacheKeyParts,
+  type LabelsCacheSettings,
+} from './labels-cache';
+import {
+  computeVisualSignature,
+  diffVisualSignatures,
+  readVisualSnapshot,
+  writeVisualSnapshot,
+  type GridGeometry,
+} from './visual-diff';
+import { resolveVisionProvider, type VisionProvider, type VisionProviderName } from './vision-provider';
 
 const CDP_WAIT_TIMEOUT_MS = 12_000;
 const BRIDGE_TIMEOUT_MS = 120_000;
+/** The bridge's default wait per action step (`DEFAULT_WAIT_TIMEOUT_MS` in cdp-bridge.mjs). */
+const ACTION_TIMEOUT_MS = 30_000;
+const BRIDGE_SERVER_START_TIMEOUT_MS = 5_000;
+const CURRENT_TAB_FILE = 'kazibee-current-tab.json';
+const NETWORK_RULES_FILE = 'kazibee-network-rules.json';
+const HAR_RECORDING_FILE = 'kazibee-har-recording.json';
+const DAEMON_PID_FILE = 'kazibee-daemon.pid';
+const DAEMON_STOP_TIMEOUT_MS = 5_000;
+const LABELS_CACHE_DIR = 'kazibee-labels-cache';
+const VISUAL_STATE_DIR = 'kazibee-visual-state';
+/** Below this `resolveElement` score the best DOM candidate is more likely a neighbour than the labeled element. */
+const DEFAULT_MIN_MATCH_SCORE = 0.2;
 const BRIDGE_PATH = fileURLToPath(new URL('./cdp-bridge.mjs', import.meta.url));
-const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
-const DEFAULT_LABELS_MODEL = 'gemini-2.5-pro';
-const GEMINI_REQUEST_TIMEOUT_MS = 90_000;
 
 export type PageLoadState = 'domcontentloaded' | 'load' | 'networkidle';
 export type SelectorWaitState = 'attached' | 'detached' | 'visible' | 'hidden';
@@ -20,15 +49,34 @@ export interface WaitStrategyOptions {
   timeoutMs?: number;
 }
 
-export interface LaunchOptions extends WaitStrategyOptions {
+/** Targets one tab by its CDP target id (`TabInfo.id`). Without it, the bridge picks the active-looking tab. */
+export interface TabTargetOptions {
+  tabId?: string;
+}
+
+/**
+ * Grid layout for one screenshot or scan. `cellSize` (image pixels, default 100) wins; otherwise the
+ * bridge picks the smallest size that fits the image into `gridColumns` x `gridRows` cells.
+ */
+export interface GridSizeOptions {
+  cellSize?: number;
+  gridColumns?: number;
+  gridRows?: number;
+  /** Draw a label in every cell (default true); false keeps only the column/row margin labels. */
+  cellLabels?: boolean;
+}
+
+export interface LaunchOptions extends WaitStrategyOptions, TabTargetOptions {
   url?: string;
   newWindow?: boolean;
 }
 
-export interface OpenOptions extends WaitStrategyOptions {
+export interface OpenOptions extends WaitStrategyOptions, TabTargetOptions {
   newWindow?: boolean;
 }
 
+export interface GridScreenshotOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {}
+
 export interface LaunchResult {
   pid: number | null;
   command: string;
@@ -37,6 +85,22 @@ export interface LaunchResult {
   launched: boolean;
 }
 
+export interface DaemonStatus {
+  running: boolean;
+  cdpUrl: string;
+  /** Pid of the Chrome process this tool launched, when it is still alive. */
+  pid: number | null;
+  /** True when the running daemon was launched (and can be stopped) by this tool. */
+  managed: boolean;
+  browserVersion?: string;
+}
+
+export interface StopDaemonResult {
+  stopped: boolean;
+  pid: number | null;
+  cdpUrl: string;
+}
+
 export interface ExecutableStatus {
   ok: boolean;
   command: string;
@@ -63,13 +127,134 @@ export interface ElementInfo {
   type?: string;
   role?: string;
   label?: string;
+  /** Other selectors that matched only this element when it was scanned, best first; pass them as `alternatives`. */
+  alternatives?: string[];
+  /** URL of the iframe the element lives in; absent for the top document. */
+  frameUrl?: string;
+  /**
+   * Selectors of the iframes to enter, outermost first, each relative to its parent document; `selector` and
+   * `alternatives` apply inside the last one. Absent for the top document; pass it on as the action's `framePath`.
+   */
+  framePath?: string[];
+  /** Selectors of the open shadow hosts between the element's document and the element, outermost first. */
+  shadowPath?: string[];
+  /** Geometry and state below are set by `scanZones`. Box in main-frame viewport CSS pixels at scan time. */
+  boundingBox?: ElementBox;
+  /** Same box in page CSS pixels (viewport box plus scroll offset). */
+  pageBox?: ElementBox;
+  /** Grid cells the box covers (`C4` or `B2:D4`), on the grid the zones were given in. */
+  gridRef?: string;
+  /** Rendered: not `display: none`, `visibility: hidden` or fully transparent. */
+  visible?: boolean;
+  /** False for `disabled` controls (including inside a disabled fieldset) and `aria-disabled="true"`. */
+  enabled?: boolean;
+  /** Checkbox/radio state, or `aria-checked`/`aria-pressed`; `mixed` for indeterminate. */
+  checked?: boolean | 'mixed';
+  /** `aria-expanded`, or the open state of a `<details>` summary. */
+  expanded?: boolean;
+  focused?: boolean;
+  /** Whether the element's center lies inside its frame's viewport. */
+  inViewport?: boolean;
+  /** Another element is on top at the element's center (only checked when `inViewport`). */
+  obscured?: boolean;
+  /** Short description (`tag#id.class`) of the covering element. */
+  obscuredBy?: string;
 }
 
 export interface ZoneResult {
   zone: string;
+  /** Cell size (image pixels) the zone refs were interpreted with. */
+  cellSize?: number;
   elements: ElementInfo[];
 }
 
+export interface MarkedScreenshotOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
+  /** Only mark elements in this grid range and crop the image to it; defaults to the whole viewport or page. */
+  zone?: Zone;
+  /** `page` captures and marks the full page; defaults to `viewport`. */
+  coordinateSpace?: GridCoordinateSpace;
+}
+
+export interface ElementMark {
+  /** Number drawn on the image, starting at 1 in reading order. */
+  mark: number;
+  element: ElementInfo;
+}
+
+/** Screenshot with a numbered box over every visible element `scanZones` found (set-of-marks). */
+export interface MarkedScreenshot {
+  /** Base64 PNG without grid lines, cropped to the zone. */
+  imageBase64: string;
+  /** Grid range that was marked, e.g. `A1:L8`. */
+  zone: string;
+  cellSize: number;
+  coordinateSpace: GridCoordinateSpace;
+  marks: ElementMark[];
+  tabId?: string;
+}
+
+export type ExtractKind = 'text' | 'links' | 'tables' | 'forms' | 'headings';
+
+export interface ExtractOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
+  kind: ExtractKind;
+  /** Only read elements intersecting this grid range (same grid as `scanZones`). */
+  zone?: Zone;
+  /** Only read inside the first element matching this CSS selector. */
+  selector?: string;
+  coordinateSpace?: GridCoordinateSpace;
+}
+
+export interface ExtractedLink {
+  text: string;
+  href: string;
+}
+
+export interface ExtractedTable {
+  caption?: string;
+  /** Header cells when the table has a header row; otherwise empty. */
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ExtractedFormField {
+  /** `#id` or `tag[name="..."]` when the field has one; usable with `execute`. */
+  selector?: string;
+  tag: string;
+  type: string;
+  name?: string;
+  label?: string;
+  /** Current value; never reported for password fields. */
+  value?: string;
+  required: boolean;
+  checked?: boolean;
+  options?: Array<{ value: string; text: string; selected: boolean }>;
+}
+
+export interface ExtractedForm {
+  selector?: string;
+  action?: string;
+  method?: string;
+  fields: ExtractedFormField[];
+}
+
+export interface ExtractedHeading {
+  level: number;
+  text: string;
+}
+
+export interface ExtractResult {
+  kind: ExtractKind;
+  url: string;
+  title: string;
+  /** Readability-style main content, blocks separated by blank lines (`text`). */
+  text?: string;
+  links?: ExtractedLink[];
+  tables?: ExtractedTable[];
+  /** Forms in document order; fields outside any form are grouped into a last entry without selector. */
+  forms?: ExtractedForm[];
+  headings?: ExtractedHeading[];
+}
+
 export interface NavigationWaitOptions {
   waitUntil?: PageLoadState;
   timeoutMs?: number;
@@ -77,21 +262,292 @@ export interface NavigationWaitOptions {
   urlMatches?: string;
 }
 
-export interface ScanZonesOptions extends WaitStrategyOptions {
+/** Pass the `cellSize` of the screenshot or labels result the zones came from so refs map onto the same grid. */
+export interface ScanZonesOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
+  coordinateSpace?: GridCoordinateSpace;
+}
+
+/** Fractional position inside a grid cell: `{ x: 0, y: 0 }` is its top-left corner, the default is the center. */
+export interface CellOffset {
+  x: number;
+  y: number;
+}
+
+/** Grid a cell-addressed action's refs come from; match the screenshot or labels result they were read off. */
+export interface GridCellTarget {
   coordinateSpace?: GridCoordinateSpace;
+  cellSize?: number;
+  offset?: CellOffset;
+}
+
+/** Selector of the element an action targets, with fallbacks tried in order when it no longer matches. */
+export interface SelectorTarget {
+  selector: string;
+  /** Usually `ElementInfo.alternatives` from `scanZones`. */
+  alternatives?: string[];
+  /** Usually `ElementInfo.framePath`: the iframes `selector` and `alternatives` are resolved in. */
+  framePath?: string[];
 }
 
+type NavigationTrigger = { waitForNavigation?: boolean | NavigationWaitOptions };
+
 export type Action =
-  | { type: 'click'; selector: string; waitForNavigation?: boolean | NavigationWaitOptions }
-  | { type: 'type'; selector: string; text: string }
-  | { type: 'select'; selector: string; value: string }
-  | { type: 'submit'; selector: string; waitForNavigation?: boolean | NavigationWaitOptions }
+  | ({ type: 'click' } & SelectorTarget & NavigationTrigger)
+  | ({ type: 'dblclick' } & SelectorTarget & NavigationTrigger)
+  | ({ type: 'rightClick' } & SelectorTarget)
+  | ({ type: 'hover' } & SelectorTarget)
+  | ({ type: 'focus' } & SelectorTarget)
+  /** `key` uses Playwright key names and combos such as `Enter`, `Escape` or `Control+A`; without `selector` it goes to the focused element. */
+  | ({ type: 'press'; key: string } & Partial<SelectorTarget> & NavigationTrigger)
+  | ({ type: 'check' } & SelectorTarget)
+  | ({ type: 'uncheck' } & SelectorTarget)
+  | ({ type: 'clear' } & SelectorTarget)
+  /** Drops onto `targetSelector`, or onto grid cell `targetCell` (drawn with `cellSize`, default 100). */
+  | ({ type: 'dragAndDrop'; targetSelector?: string; targetCell?: string } & SelectorTarget & GridCellTarget)
+  | ({ type: 'clickCell'; cell: string } & GridCellTarget & NavigationTrigger)
+  | ({ type: 'hoverCell'; cell: string } & GridCellTarget)
+  | ({ type: 'dragCells'; from: string; to: string; fromOffset?: CellOffset; toOffset?: CellOffset } & Omit<GridCellTarget, 'offset'>)
+  /** Scrolls so the cell ends up in the middle of the viewport. */
+  | ({ type: 'scrollToCell'; cell: string } & GridCellTarget)
+  /** Relative `files` paths are resolved against the caller's working directory. */
+  | ({ type: 'uploadFile'; files: string | string[] } & SelectorTarget)
+  | ({ type: 'type'; text: string } & SelectorTarget)
+  /** Types `field` of vault entry `credential`; the bridge reads the value itself, so it never passes through the caller. */
+  | ({ type: 'fillCredential'; credential: string; field: string } & SelectorTarget)
+  | ({ type: 'select'; value: string } & SelectorTarget)
+  | ({ type: 'submit' } & SelectorTarget & NavigationTrigger)
   | { type: 'waitForLoadState'; state?: PageLoadState; timeoutMs?: number }
-  | { type: 'waitForSelector'; selector: string; state?: SelectorWaitState; timeoutMs?: number }
+  | ({ type: 'waitForSelector'; state?: SelectorWaitState; timeoutMs?: number } & SelectorTarget)
   | { type: 'waitForUrl'; urlIncludes?: string; urlMatches?: string; timeoutMs?: number }
   | { type: 'scroll'; direction: 'up' | 'down'; amount?: number }
   | { type: 'navigate'; url: string; waitUntil?: PageLoadState; timeoutMs?: number };
 
+/** Viewport CSS-pixel rectangle of an element. */
+export interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Action-specific details reported by `execute`; only the fields relevant to the action are set. */
+export interface ActionData {
+  /** Target element box before `click`/`dblclick`/`rightClick`, after `hover` and `waitForSelector`. */
+  boundingBox?: ElementBox | null;
+  /** Option values that ended up selected (`select`). */
+  values?: string[];
+  /** Checkbox state after `check`/`uncheck`. */
+  checked?: boolean;
+  /** Whether `waitForSelector` ended with a matching element (false for `hidden`/`detached` waits). */
+  found?: boolean;
+  /** CSS-pixel viewport point used by grid-cell actions. */
+  point?: { x: number; y: number };
+  from?: { x: number; y: number };
+  to?: { x: number; y: number };
+  scrollX?: number;
+  scrollY?: number;
+  /** Number of files set on the input (`uploadFile`). */
+  files?: number;
+}
+
+export interface ActionResult {
+  url: string;
+  title: string;
+  /** True when the main frame navigated during the action (including same-document URL changes). */
+  navigated: boolean;
+  durationMs: number;
+  /** Alternative selector that was used because the primary one still matched nothing after its wait. */
+  fallbackSelector?: string;
+  data?: ActionData;
+}
+
+export interface ExecuteOptions extends TabTargetOptions {
+  /** On failure, append this many of the tab's most recent error log entries to the thrown error's message. */
+  attachConsoleErrors?: number;
+}
+
+export interface ExecuteSequenceOptions extends TabTargetOptions {
+  /** Skip the remaining steps after the first failing one (default true). */
+  stopOnError?: boolean;
+  /** Attach a grid screenshot of the page to the failing step. */
+  screenshotOnError?: boolean;
+}
+
+export type ActionStepStatus = 'ok' | 'error' | 'skipped';
+
+export interface ActionStepResult {
+  index: number;
+  type: string;
+  status: ActionStepStatus;
+  durationMs: number;
+  /** Page URL right after the step; absent for skipped steps. */
+  url?: string;
+  title?: string;
+  navigated?: boolean;
+  fallbackSelector?: string;
+  data?: ActionData;
+  error?: string;
+  /** Base64 PNG grid screenshot taken after the failure (`screenshotOnError`). */
+  screenshotBase64?: string;
+}
+
+export interface ExecuteSequenceResult {
+  /** True when every step succeeded. */
+  ok: boolean;
+  steps: ActionStepResult[];
+}
+
+/**
+ * Persistent request rule, applied by every bridge connection until cleared. `urlPattern` is a
+ * Playwright URL glob such as `https://api.example.com/v1/**` or `*://*.doubleclick.net/**`; `resourceTypes`
+ * (`image`, `script`, `xhr`, `fetch`, ...) narrows it further.
+ */
+export type NetworkRule =
+  | { type: 'block'; urlPattern: string; resourceTypes?: string[] }
+  /** Answers with `body`, or with the contents of `bodyPath` (resolved against the caller's cwd). */
+  | {
+      type: 'fulfill';
+      urlPattern: string;
+      resourceTypes?: string[];
+      status?: number;
+      contentType?: string;
+      headers?: Record<string, string>;
+      body?: string;
+      bodyPath?: string;
+    }
+  /** Adds or overrides request headers, then lets later rules or the network handle the request. */
+  | { type: 'setHeaders'; urlPattern: string; resourceTypes?: string[]; headers: Record<string, string> };
+
+export interface CaptureResponsesOptions extends TabTargetOptions {
+  /** Regular expression tested against each response URL; omit to capture every response. */
+  urlMatches?: string;
+  /** How long to listen; defaults to 5000 ms, capped at 60000 ms. */
+  durationMs?: number;
+  /** Runs once listening has started, so the responses it triggers are captured. */
+  action?: Action;
+  /** Bodies longer than this are cut off and flagged `bodyTruncated`; defaults to 1 MB. */
+  maxBodyBytes?: number;
+}
+
+export interface CapturedResponse {
+  request: {
+    url: string;
+    method: string;
+    resourceType: string;
+    headers: Record<string, string>;
+    postData?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    /** Text bodies are `utf8`, everything else `base64`; absent for redirects and bodiless responses. */
+    body?: string;
+    bodyEncoding?: 'utf8' | 'base64';
+    bodyTruncated?: boolean;
+    /** Set when the body was still streaming when the capture ended (server-sent events, long polls). */
+    bodyMissing?: boolean;
+    /** Parsed body of complete JSON responses. */
+    json?: unknown;
+  };
+}
+
+export interface CaptureResponsesResult {
+  responses: CapturedResponse[];
+  durationMs: number;
+  /** Result of `options.action`, when one was given. */
+  action?: ActionResult;
+}
+
+export type ConsoleLogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+/** One buffered log entry: a console message, an uncaught page error or a failed/4xx-5xx request. */
+export interface ConsoleLogEntry {
+  /** Epoch milliseconds. */
+  timestamp: number;
+  level: ConsoleLogLevel;
+  source: 'console' | 'pageerror' | 'network';
+  text: string;
+  url?: string;
+  /** Zero-based position in `url` for console messages. */
+  lineNumber?: number;
+  columnNumber?: number;
+  stack?: string;
+}
+
+export interface ConsoleLogsOptions extends TabTargetOptions {
+  /** Only entries at or after this epoch-millisecond timestamp. */
+  since?: number;
+  /** Minimum level (default `debug`, i.e. everything). */
+  level?: ConsoleLogLevel;
+  /** Keep only the newest N matching entries. */
+  limit?: number;
+}
+
+export interface ConsoleLogsResult {
+  entries: ConsoleLogEntry[];
+  /** Entries evicted from the tab's 500-entry ring buffer so far. */
+  dropped: number;
+}
+
+export interface StorageStateCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /** Unix time in seconds; -1 for session cookies. */
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+export interface StorageStateOrigin {
+  origin: string;
+  localStorage: Array<{ name: string; value: string }>;
+  /** Not part of Playwright's format; restored only into tabs already open on the origin. */
+  sessionStorage?: Array<{ name: string; value: string }>;
+}
+
+/** Playwright `storageState` JSON, so files can be shared with Playwright's `storageState` option. */
+export interface StorageState {
+  cookies: StorageStateCookie[];
+  origins: StorageStateOrigin[];
+}
+
+export interface StateOriginsOptions {
+  /** Origins such as `https://app.example.com`; omit to cover every cookie and the origins of open tabs. */
+  origins?: string[];
+}
+
+export interface StateChangeResult {
+  /** Cookies added or removed. */
+  cookies: number;
+  /** Origins whose storage was written or cleared. */
+  origins: number;
+  /** `importState` only: origins whose sessionStorage was not restored because no tab was open on them. */
+  skippedSessionStorage?: string[];
+}
+
+/** A vault entry as listed by `listCredentials`: field names only, never values. */
+export interface CredentialInfo {
+  name: string;
+  origin?: string;
+  fields: string[];
+}
+
+export interface SetCredentialOptions {
+  /** Origin the credential may be filled on, e.g. `https://github.com`; `fillCredential` refuses every other page. */
+  origin: string;
+}
+
+export interface HarRecording {
+  /** Absolute path of the HAR file. */
+  path: string;
+  /** Entries written to the file so far. */
+  entries: number;
+}
+
 export interface TabInfo {
   id: string;
   title: string;
@@ -102,21 +558,37 @@ export interface TabInfo {
 export interface SavedScreenshot {
   outputPath: string;
   sizeBytes: number;
+  cellSize?: number;
 }
 
-export interface LabelsOptions extends WaitStrategyOptions {
+export interface LabelsOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
   model?: string;
+  provider?: VisionProviderName | VisionProvider;
+  /** Skip the screenshot-keyed labels cache and always call the vision model. */
+  bypassCache?: boolean;
+  /** Reuse the previous result for this tab when at most this share (0..1) of grid cells changed; 0 disables. */
+  nearDuplicateThreshold?: number;
   detailLevel?: 'high' | 'extreme';
   requestTimeoutMs?: number;
 }
 
-export interface LabelsOverviewOptions extends WaitStrategyOptions {
+export interface LabelsOverviewOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
   model?: string;
+  provider?: VisionProviderName | VisionProvider;
+  /** Skip the screenshot-keyed labels cache and always call the vision model. */
+  bypassCache?: boolean;
+  /** Reuse the previous result for this tab when at most this share (0..1) of grid cells changed; 0 disables. */
+  nearDuplicateThreshold?: number;
   requestTimeoutMs?: number;
 }
 
-export interface ZoneLabelsOptions extends WaitStrategyOptions {
+export interface ZoneLabelsOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
   model?: string;
+  provider?: VisionProviderName | VisionProvider;
+  /** Skip the screenshot-keyed labels cache and always call the vision model. */
+  bypassCache?: boolean;
+  /** Reuse the previous result for this tab when at most this share (0..1) of grid cells changed; 0 disables. */
+  nearDuplicateThreshold?: number;
   detailLevel?: 'high' | 'extreme';
   focus?: string;
   requestTimeoutMs?: number;
@@ -128,11 +600,81 @@ export interface ZoneLabelsResult {
 }
 
 /** Options for locating a single interactive element from a natural-language query. */
-export interface FindInteractiveElementOptions extends WaitStrategyOptions {
+export interface FindInteractiveElementOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
+  /**
+   * `accessibility` sends the accessibility tree as text instead of a screenshot (no-image mode);
+   * `marks` sends a set-of-marks screenshot and the model answers with a mark number.
+   */
+  input?: 'screenshot' | 'accessibility' | 'marks';
   model?: string;
+  provider?: VisionProviderName | VisionProvider;
+  /** Skip the screenshot-keyed labels cache and always call the vision model. */
+  bypassCache?: boolean;
   requestTimeoutMs?: number;
 }
 
+/** Options for mapping a model-labeled element back to a live DOM element. */
+export interface ResolveElementOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
+  /** Grid the element's `gridRef` was read from; `findInteractiveElement` and `labels` use `"viewport"`. */
+  coordinateSpace?: GridCoordinateSpace;
+  /** Minimum `ResolvedElement.score` the best candidate needs; below it `resolveElement` throws (default 0.2). */
+  minScore?: number;
+}
+
+export interface AccessibilitySnapshotOptions extends WaitStrategyOptions, TabTargetOptions, GridSizeOptions {
+  /** Keep only nodes whose bounds intersect this grid range (their kept descendants are lifted up). */
+  zone?: Zone;
+  /** Drop ignored and purely structural nodes (default true). */
+  interestingOnly?: boolean;
+  coordinateSpace?: GridCoordinateSpace;
+}
+
+export interface AccessibilityNode {
+  /** Stable within one snapshot (`ax<nodeId>`). */
+  id: string;
+  role: string;
+  name?: string;
+  value?: string;
+  /** CDP accessibility states such as `focused`, `disabled`, `checked`, `expanded`, `required`. */
+  states?: Record<string, boolean | string>;
+  /** CSS-pixel box in the snapshot's coordinate space. */
+  bounds?: ElementBox;
+  gridRef?: string;
+  /** Selector for the backing DOM element, usable with `execute`. */
+  selector?: string;
+  children?: AccessibilityNode[];
+}
+
+export interface AccessibilitySnapshot {
+  url: string;
+  coordinateSpace: GridCoordinateSpace;
+  cellSize: number;
+  nodes: AccessibilityNode[];
+  /** Set when more than 2000 kept nodes fell inside the zone (or the page); narrow with `zone` to see the rest. */
+  truncated?: boolean;
+}
+
+export interface ResolvedElement {
+  element: ElementInfo;
+  /** Match quality against the model's text, role and element type, from 0 to 1. */
+  score: number;
+  /** Zone that was scanned, widened by one cell when the exact grid ref held no candidates. */
+  zone: string;
+  candidateCount: number;
+}
+
+export interface FindAndClickOptions extends FindInteractiveElementOptions {
+  waitForNavigation?: boolean | NavigationWaitOptions;
+  /** Minimum `ResolvedElement.score` required before clicking (default 0.2). */
+  minScore?: number;
+}
+
+export interface FindAndClickResult {
+  uiElement: UiInteractiveElement;
+  resolved: ResolvedElement;
+  action: ActionResult;
+}
+
 export interface UiLayoutRegion {
   id: string;
   gridRange: string;
@@ -152,6 +694,12 @@ export interface UiInteractiveElement {
   importance: string;
   whyItMatters: string;
   confidence: number;
+  /** DOM selector, set when the element came from the accessibility tree or a marked screenshot. */
+  selector?: string;
+  /** Iframes `selector` lives in (`ElementInfo.framePath`), set for marked-screenshot elements inside frames. */
+  framePath?: string[];
+  /** Mark number the model picked, set for `input: "marks"`. */
+  mark?: number;
 }
 
 export interface UiPointOfInterest {
@@ -176,6 +724,26 @@ export interface UiLabelsResult {
   confidence: number;
   model: string;
   gridSpace?: GridCoordinateSpace;
+  /** Cell size (image pixels) of the grid the refs point into; pass it to `scanZones`/`resolveElement`. */
+  cellSize?: number;
+  /** True when the result was served from the labels cache instead of a new vision call. */
+  cacheHit?: boolean;
+  /** Change against the last analyzed screenshot of the same tab, when there was one. */
+  visualDiff?: UiVisualDiff;
+}
+
+export interface UiVisualDiff {
+  /** True when the change was below the near-duplicate threshold and the previous result was returned. */
+  reused: boolean;
+  /** Share of grid cells (0..1) that changed. */
+  changedFraction: number;
+  changedCells: string[];
+  /**
+   * Smallest range covering the changed cells, in the result's `gridSpace`. Viewport ranges (`labels`,
+   * `labelsInRange`) can go to `labelsInRange`; page ranges (`labelsOverview`) only to `scanZones` with
+   * `coordinateSpace: "page"`, since `labelsInRange` reads viewport cells.
+   */
+  dirtyRange?: GridRange;
 }
 
 export interface UiOverviewRegion {
@@ -190,22 +758,22 @@ export interface UiOverviewResult {
   confidence: number;
   model: string;
   gridSpace?: GridCoordinateSpace;
+  /** Cell size (image pixels) of the grid the refs point into; pass it to `scanZones`/`resolveElement`. */
+  cellSize?: number;
+  /** True when the result was served from the labels cache instead of a new vision call. */
+  cacheHit?: boolean;
+  /** Change against the last analyzed screenshot of the same tab, when there was one. */
+  visualDiff?: UiVisualDiff;
 }
 
-interface GeminiPart {
-  text?: string;
-}
+type LabelsPromptMode = 'full' | 'zone';
 
-interface GeminiResponse {
-  candidates?: Array<{
-    content?: {
-      parts?: GeminiPart[];
-    };
-  }>;
+interface CapturedGridScreenshot {
+  image: Buffer;
+  grid?: GridGeometry;
+  tabId?: string;
 }
 
-type LabelsPromptMode = 'full' | 'zone';
-
 export function createChromeBrowserClient(config: AuthConfig) {
   return {
     getExecutablePath: (): string => config.chromePath,
@@ -215,27 +783,85 @@ export function createChromeBrowserClient(config: AuthConfig) {
     launch: async (options?: LaunchOptions): Promise<LaunchResult> => launch(config, options),
     open: async (url: string, options?: OpenOptions): Promise<LaunchResult> => open(config, url, options),
     launchDaemon: async (): Promise<LaunchResult> => launchDaemon(config),
+    daemonStatus: async (): Promise<DaemonStatus> => daemonStatus(config),
+    /** Stops the Chrome daemon launched by this tool (tracked through its pidfile). */
+    stopDaemon: async (): Promise<StopDaemonResult> => stopDaemon(config),
+    restartDaemon: async (): Promise<LaunchResult> => restartDaemon(config),
     listTabs: async (): Promise<TabInfo[]> => listTabs(config),
-    gridScreenshot: async (options?: GridRange, wait?: WaitStrategyOptions): Promise<Buffer> => gridScreenshot(config, options, wait),
-    gridScreenshotBase64: async (options?: GridRange, wait?: WaitStrategyOptions): Promise<string> =>
+    /** Opens a new tab (optionally at `url`) and makes it the current tab. */
+    newTab: async (url?: string): Promise<TabInfo> => newTab(config, url),
+    /** Closes a tab; clears the current-tab pointer when it pointed at that tab. */
+    closeTab: async (tabId: string): Promise<void> => closeTab(config, tabId),
+    /** Brings a tab to the front and makes it the current tab. */
+    activateTab: async (tabId: string): Promise<TabInfo> => activateTab(config, tabId),
+    /** Returns the tab that operations without `tabId` target, or `null` when none is set. */
+    getCurrentTab: async (): Promise<TabInfo | null> => getCurrentTab(config),
+    gridScreenshot: async (options?: GridRange, wait?: GridScreenshotOptions): Promise<Buffer> => gridScreenshot(config, options, wait),
+    gridScreenshotBase64: async (options?: GridRange, wait?: GridScreenshotOptions): Promise<string> =>
       gridScreenshotBase64(config, options, wait),
-    saveGridScreenshot: async (outputPath: string, options?: GridRange, wait?: WaitStrategyOptions): Promise<SavedScreenshot> =>
+    saveGridScreenshot: async (outputPath: string, options?: GridRange, wait?: GridScreenshotOptions): Promise<SavedScreenshot> =>
       saveGridScreenshot(config, outputPath, options, wait),
-    /** Captures a full grid screenshot and requests Gemini to label key UI regions and elements. */
+    /** Captures a full grid screenshot and requests the vision model to label key UI regions and elements. */
     labels: async (options?: LabelsOptions): Promise<UiLabelsResult> => labels(config, options),
     /** Captures a full grid screenshot and requests a minimal overview (ranges + descriptions). */
     labelsOverview: async (options?: LabelsOverviewOptions): Promise<UiOverviewResult> => labelsOverview(config, options),
-    /** Captures a grid screenshot cropped to a range and asks Gemini for zone-focused labels. */
+    /** Captures a grid screenshot cropped to a range and asks the vision model for zone-focused labels. */
     labelsInRange: async (range: GridRange, options?: ZoneLabelsOptions): Promise<UiLabelsResult> =>
       labelsInRange(config, range, options),
-    /** Runs zone-focused Gemini labels for each range and returns per-zone results. */
+    /** Runs zone-focused labels for each range and returns per-zone results. */
     labelsByZones: async (zones: Zone[], options?: ZoneLabelsOptions): Promise<ZoneLabelsResult[]> =>
       labelsByZones(config, zones, options),
-    /** Finds one best-matching interactive element for a query using Gemini + grid screenshot analysis. */
+    /** Finds one best-matching interactive element for a query using vision-model + grid screenshot analysis. */
     findInteractiveElement: async (query: string, options?: FindInteractiveElementOptions): Promise<UiInteractiveElement> =>
       findInteractiveElement(config, query, options),
+    /** Screenshot with numbered boxes over scanned elements, plus the mark-to-element map. */
+    markedScreenshot: async (options?: MarkedScreenshotOptions): Promise<MarkedScreenshot> => markedScreenshot(config, options),
+    /** Scans the grid ref of a model-labeled element and returns the best-matching DOM element with its selector. */
+    resolveElement: async (uiElement: UiInteractiveElement, options?: ResolveElementOptions): Promise<ResolvedElement> =>
+      resolveElement(config, uiElement, options),
+    /** Finds an element by natural-language query, resolves it to a selector and clicks it. */
+    findAndClick: async (query: string, options?: FindAndClickOptions): Promise<FindAndClickResult> =>
+      findAndClick(config, query, options),
     scanZones: async (zones: Zone[], options?: ScanZonesOptions): Promise<ZoneResult[]> => scanZones(config, zones, options),
-    execute: async (action: Action): Promise<void> => execute(config, action),
+    /** Returns the accessibility tree (role, name, value, states, bounds, grid ref, selector) without a vision call. */
+    accessibilitySnapshot: async (options?: AccessibilitySnapshotOptions): Promise<AccessibilitySnapshot> =>
+      accessibilitySnapshot(config, options),
+    /** Reads page content from the DOM (main text, links, tables, forms or headings) without a vision call. */
+    extract: async (options: ExtractOptions): Promise<ExtractResult> => extract(config, options),
+    /** Runs one action and reports the final URL, title, whether navigation happened and action-specific data. */
+    execute: async (action: Action, options?: ExecuteOptions): Promise<ActionResult> => execute(config, action, options),
+    /** Runs several actions in one bridge call and reports status, duration, URL and error per step. */
+    executeSequence: async (actions: Action[], options?: ExecuteSequenceOptions): Promise<ExecuteSequenceResult> =>
+      executeSequence(config, actions, options),
+    /** Replaces the persistent network rules; every later bridge call applies them. */
+    setNetworkRules: async (rules: NetworkRule[]): Promise<NetworkRule[]> => setNetworkRules(config, rules),
+    getNetworkRules: async (): Promise<NetworkRule[]> => readNetworkRules(config),
+    clearNetworkRules: async (): Promise<void> => setNetworkRules(config, []).then(() => undefined),
+    /** Starts writing every request/response of later calls to a fresh HAR file at `path`. */
+    startHarRecording: async (path: string): Promise<HarRecording> => startHarRecording(config, path),
+    /** Stops recording and flushes the HAR file; resolves `null` when no recording was running. */
+    stopHarRecording: async (): Promise<HarRecording | null> => stopHarRecording(config),
+    /** Listens for responses matching `urlMatches` (optionally around one action) and returns them with their bodies. */
+    captureResponses: async (options?: CaptureResponsesOptions): Promise<CaptureResponsesResult> =>
+      captureResponses(config, options),
+    /** Returns the tab's buffered console messages, uncaught errors and failed requests. */
+    getConsoleLogs: async (options?: ConsoleLogsOptions): Promise<ConsoleLogsResult> => getConsoleLogs(config, options),
+    /** Exports cookies plus localStorage/sessionStorage per origin in Playwright's storageState format. */
+    exportState: async (options?: StateOriginsOptions): Promise<StorageState> => exportState(config, options),
+    /** Adds the cookies and writes the per-origin storage of an exported state into the browser. */
+    importState: async (state: StorageState): Promise<StateChangeResult> => importState(config, state),
+    /** Removes cookies and storage for `origins`, or all cookies and the storage of open tabs. */
+    clearState: async (options?: StateOriginsOptions): Promise<StateChangeResult> => clearState(config, options),
+    /** Stores (or replaces) a named credential in the encrypted vault; fill it with `execute({ type: "fillCredential" })`. */
+    setCredential: async (
+      name: string,
+      fields: Record<string, string>,
+      options: SetCredentialOptions,
+    ): Promise<CredentialInfo> => setCredential(config, name, fields, options),
+    /** Lists vault entries with their field names; values are never returned. */
+    listCredentials: async (): Promise<CredentialInfo[]> => listCredentials(config),
+    /** Deletes a vault entry; resolves false when it did not exist. */
+    removeCredential: async (name: string): Promise<boolean> => removeCredential(config, name),
   };
 }
 
@@ -243,14 +869,19 @@ async function launch(config: AuthConfig, options: LaunchOptions = {}): Promise<
   const daemon = await launchDaemon(config);
   if (!options.url) return daemon;
 
-  await runBridge(config, {
+  const result = await runBridge(config, {
     op: 'navigate',
     url: options.url,
     newWindow: Boolean(options.newWindow),
+    tabId: options.tabId,
     waitUntil: options.waitUntil,
     timeoutMs: options.timeoutMs,
   });
 
+  if (options.newWindow && typeof result.tabId === 'string') {
+    writeCurrentTabId(config, result.tabId);
+  }
+
   return daemon;
 }
 
@@ -258,6 +889,7 @@ async function open(config: AuthConfig, url: string, options: OpenOptions = {}):
   return launch(config, {
     url,
     newWindow: options.newWindow,
+    tabId: options.tabId,
     waitUntil: options.waitUntil,
     timeoutMs: options.timeoutMs,
   });
@@ -267,7 +899,7 @@ async function launchDaemon(config: AuthConfig): Promise<LaunchResult> {
   const cdpUrl = getCdpUrl(config);
   if (await isCdpReachable(cdpUrl)) {
     return {
-      pid: null,
+      pid: readDaemonPid(config),
       command: config.chromePath,
       args: daemonArgs(config),
       cdpUrl,
@@ -275,6 +907,18 @@ async function launchDaemon(config: AuthConfig): Promise<LaunchResult> {
     };
   }
 
+  if (!config.autoLaunch) {
+    throw new Error(
+      `Chrome CDP is not reachable at ${cdpUrl} and CHROME_AUTO_LAUNCH is disabled. ` +
+        `Start Chrome with --remote-debugging-port=${config.remoteDebuggingPort} or enable CHROME_AUTO_LAUNCH.`,
+    );
+  }
+
+  return startDaemon(config);
+}
+
+async function startDaemon(config: AuthConfig): Promise<LaunchResult> {
+  const cdpUrl = getCdpUrl(config);
   const launchResult = spawnDaemon(config);
   const ready = await waitForCdp(cdpUrl, CDP_WAIT_TIMEOUT_MS);
   if (!ready) {
@@ -284,6 +928,53 @@ async function launchDaemon(config: AuthConfig): Promise<LaunchResult> {
   return launchResult;
 }
 
+async function daemonStatus(config: AuthConfig): Promise<DaemonStatus> {
+  const cdpUrl = getCdpUrl(config);
+  const pid = readDaemonPid(config);
+  const version = await fetchCdpVersion(cdpUrl);
+  return {
+    running: Boolean(version),
+    cdpUrl,
+    pid,
+    managed: Boolean(version) && pid !== null,
+    browserVersion: version ? toOptionalString(version.Browser) : undefined,
+  };
+}
+
+async function stopDaemon(config: AuthConfig): Promise<StopDaemonResult> {
+  const cdpUrl = getCdpUrl(config);
+  const pid = readDaemonPid(config);
+  await stopBridgeServer(config);
+
+  // Only signal a pid that is still our Chrome and still serving CDP; anything else is a stale pidfile.
+  const reachable = await isCdpReachable(cdpUrl);
+  if (pid === null || !reachable) {
+    if (reachable) {
+      throw new Error(`Chrome at ${cdpUrl} was not launched by this tool (no live pidfile); refusing to stop it.`);
+    }
+    writeDaemonPid(config, null);
+    return { stopped: false, pid: null, cdpUrl };
+  }
+
+  process.kill(pid, 'SIGTERM');
+  const start = Date.now();
+  while (isProcessAlive(pid) && Date.now() - start < DAEMON_STOP_TIMEOUT_MS) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  if (isProcessAlive(pid)) {
+    process.kill(pid, 'SIGKILL');
+  }
+
+  writeDaemonPid(config, null);
+  writeCurrentTabId(config, undefined);
+  return { stopped: true, pid, cdpUrl };
+}
+
+async function restartDaemon(config: AuthConfig): Promise<LaunchResult> {
+  await stopDaemon(config);
+  return startDaemon(config);
+}
+
 function spawnDaemon(config: AuthConfig): LaunchResult {
   const args = daemonArgs(config);
   const child = spawn(config.chromePath, args, {
@@ -291,6 +982,7 @@ function spawnDaemon(config: AuthConfig): LaunchResult {
     stdio: 'ignore',
   });
   child.unref();
+  writeDaemonPid(config, child.pid ?? null);
 
   return {
     pid: child.pid ?? null,
@@ -318,6 +1010,7 @@ function daemonArgs(config: AuthConfig): string[] {
     args.push('--headless=new', '--disable-gpu');
   }
 
+  args.push(...config.extraArgs);
   args.push('about:blank');
   return args;
 }
@@ -351,7 +1044,7 @@ function checkExecutable(command: string): ExecutableStatus {
   };
 }
 
-async function gridScreenshot(config: AuthConfig, options?: GridRange, wait: WaitStrategyOptions = {}): Promise<Buffer> {
+async function gridScreenshot(config: AuthConfig, options?: GridRange, wait: GridScreenshotOptions = {}): Promise<Buffer> {
   return gridScreenshotInternal(config, options, false, wait);
 }
 
@@ -359,130 +1052,243 @@ async function gridScreenshotInternal(
   config: AuthConfig,
   options?: GridRange,
   fullPage = false,
-  wait: WaitStrategyOptions = {},
+  wait: GridScreenshotOptions = {},
 ): Promise<Buffer> {
+  const captured = await captureGridScreenshot(config, options, fullPage, wait);
+  return captured.image;
+}
+
+/** Takes a grid screenshot and keeps the grid layout and tab id the bridge reports alongside it. */
+async function captureGridScreenshot(
+  config: AuthConfig,
+  options?: GridRange,
+  fullPage = false,
+  wait: GridScreenshotOptions = {},
+): Promise<CapturedGridScreenshot> {
   await launchDaemon(config);
   const result = await runBridge(config, {
     op: 'gridScreenshot',
     start: options?.start,
     end: options?.end,
     fullPage,
+    tabId: wait.tabId,
     waitUntil: wait.waitUntil,
     timeoutMs: wait.timeoutMs,
+    ...pickGridSizeOptions(wait),
   });
 
   if (!result?.imageBase64) {
     throw new Error('Bridge returned no image for gridScreenshot.');
   }
 
-  return Buffer.from(String(result.imageBase64), 'base64');
+  return {
+    image: Buffer.from(String(result.imageBase64), 'base64'),
+    grid: isRecord(result.grid) ? (result.grid as unknown as GridGeometry) : undefined,
+    tabId: toOptionalString(result.tabId),
+  };
 }
 
-async function gridScreenshotBase64(config: AuthConfig, options?: GridRange, wait: WaitStrategyOptions = {}): Promise<string> {
+async function gridScreenshotBase64(config: AuthConfig, options?: GridRange, wait: GridScreenshotOptions = {}): Promise<string> {
   const image = await gridScreenshot(config, options, wait);
   return image.toString('base64');
 }
 
-async function gridScreenshotBase64Internal(
-  config: AuthConfig,
-  options?: GridRange,
-  fullPage = false,
-  wait: WaitStrategyOptions = {},
-): Promise<string> {
-  const image = await gridScreenshotInternal(config, options, fullPage, wait);
-  return image.toString('base64');
-}
-
 async function saveGridScreenshot(
   config: AuthConfig,
   outputPath: string,
   options?: GridRange,
-  wait: WaitStrategyOptions = {},
+  wait: GridScreenshotOptions = {},
 ): Promise<SavedScreenshot> {
-  const image = await gridScreenshot(config, options, wait);
+  const { image, grid } = await captureGridScreenshot(config, options, false, wait);
   const resolvedPath = resolve(outputPath);
   mkdirSync(dirname(resolvedPath), { recursive: true });
   writeFileSync(resolvedPath, image);
   return {
     outputPath: resolvedPath,
     sizeBytes: image.byteLength,
+    cellSize: grid?.cellSize,
   };
 }
 
-async function labels(config: AuthConfig, options: LabelsOptions = {}): Promise<UiLabelsResult> {
-  if (!config.geminiApiKey) {
-    throw new Error('Missing GEMINI_API_KEY in environment. labels() requires Gemini.');
+async function markedScreenshot(config: AuthConfig, options: MarkedScreenshotOptions = {}): Promise<MarkedScreenshot> {
+  await launchDaemon(config);
+  const coordinateSpace = options.coordinateSpace ?? 'viewport';
+  const result = await runBridge(config, {
+    op: 'markedScreenshot',
+    zone: options.zone ? normalizeGridRange(options.zone) : undefined,
+    coordinateSpace,
+    tabId: options.tabId,
+    waitUntil: options.waitUntil,
+    timeoutMs: options.timeoutMs,
+    ...pickGridSizeOptions(options),
+  });
+
+  if (!result?.imageBase64) {
+    throw new Error('Bridge returned no image for markedScreenshot.');
   }
 
-  const screenshotBase64 = await gridScreenshotBase64(config, undefined, {
+  return {
+    imageBase64: String(result.imageBase64),
+    zone: String(result.zone ?? ''),
+    cellSize: Number(result.cellSize) || 0,
+    coordinateSpace,
+    marks: (Array.isArray(result.marks) ? result.marks : []) as ElementMark[],
+    tabId: toOptionalString(result.tabId),
+  };
+}
+
+async function labels(config: AuthConfig, options: LabelsOptions = {}): Promise<UiLabelsResult> {
+  const provider = resolveVisionProvider(config, options.provider, 'labels');
+
+  const screenshot = await captureGridScreenshot(config, undefined, false, {
+    tabId: options.tabId,
     waitUntil: options.waitUntil,
     timeoutMs: options.timeoutMs,
+    ...pickGridSizeOptions(options),
   });
-  const model = normalizeModelName(options.model?.trim() || DEFAULT_LABELS_MODEL);
+  const screenshotBase64 = screenshot.image.toString('base64');
+  const model = resolveModelName(config, provider, options.model);
   const detailLevel = options.detailLevel || 'extreme';
-  const analysis = await runLabelsAnalysis(
-    config.geminiApiKey,
-    model,
-    screenshotBase64,
-    detailLevel,
-    'full',
-    undefined,
-    undefined,
-    options.requestTimeoutMs,
-  );
-  return {
-    ...analysis,
-    gridSpace: 'viewport',
-  };
+  const cacheKey = { screenshotBase64, mode: 'full', detailLevel, model, provider: providerCacheIdentity(provider) };
+  return analyzeWithReuse(config, screenshot, cacheKey, options, async () => {
+    const analysis = await runLabelsAnalysis(
+      provider,
+      model,
+      screenshotBase64,
+      detailLevel,
+      'full',
+      undefined,
+      undefined,
+      options.requestTimeoutMs,
+      screenshot.grid,
+    );
+    return {
+      ...analysis,
+      gridSpace: 'viewport',
+      cellSize: screenshot.grid?.cellSize,
+    };
+  });
 }
 
 async function labelsOverview(config: AuthConfig, options: LabelsOverviewOptions = {}): Promise<UiOverviewResult> {
-  if (!config.geminiApiKey) {
-    throw new Error('Missing GEMINI_API_KEY in environment. labelsOverview() requires Gemini.');
-  }
+  const provider = resolveVisionProvider(config, options.provider, 'labelsOverview');
 
-  const screenshotBase64 = await gridScreenshotBase64Internal(
-    config,
-    undefined,
-    true,
-    {
-      waitUntil: options.waitUntil,
-      timeoutMs: options.timeoutMs,
-    },
-  );
-  const model = normalizeModelName(options.model?.trim() || DEFAULT_LABELS_MODEL);
-  const analysis = await runOverviewAnalysis(config.geminiApiKey, model, screenshotBase64, options.requestTimeoutMs);
-  return {
-    ...analysis,
-    gridSpace: 'page',
-  };
+  const screenshot = await captureGridScreenshot(config, undefined, true, {
+    tabId: options.tabId,
+    waitUntil: options.waitUntil,
+    timeoutMs: options.timeoutMs,
+    ...pickGridSizeOptions(options),
+  });
+  const screenshotBase64 = screenshot.image.toString('base64');
+  const model = resolveModelName(config, provider, options.model);
+  const cacheKey = { screenshotBase64, mode: 'overview', model, provider: providerCacheIdentity(provider) };
+  return analyzeWithReuse(config, screenshot, cacheKey, options, async () => {
+    const analysis = await runOverviewAnalysis(provider, model, screenshotBase64, options.requestTimeoutMs, screenshot.grid);
+    return {
+      ...analysis,
+      gridSpace: 'page',
+      cellSize: screenshot.grid?.cellSize,
+    };
+  });
 }
 
 async function labelsInRange(config: AuthConfig, range: GridRange, options: ZoneLabelsOptions = {}): Promise<UiLabelsResult> {
-  if (!config.geminiApiKey) {
-    throw new Error('Missing GEMINI_API_KEY in environment. labelsInRange() requires Gemini.');
-  }
+  const provider = resolveVisionProvider(config, options.provider, 'labelsInRange');
 
   const normalizedRange = normalizeGridRange(range);
-  const screenshotBase64 = await gridScreenshotBase64(config, normalizedRange, {
+  const screenshot = await captureGridScreenshot(config, normalizedRange, false, {
+    tabId: options.tabId,
     waitUntil: options.waitUntil,
     timeoutMs: options.timeoutMs,
+    ...pickGridSizeOptions(options),
   });
-  const model = normalizeModelName(options.model?.trim() || DEFAULT_LABELS_MODEL);
+  const screenshotBase64 = screenshot.image.toString('base64');
+  const model = resolveModelName(config, provider, options.model);
   const detailLevel = options.detailLevel || 'extreme';
-  const analysis = await runLabelsAnalysis(
-    config.geminiApiKey,
-    model,
+  const cacheKey = {
     screenshotBase64,
+    mode: `zone:${normalizedRange.start.toUpperCase()}:${normalizedRange.end.toUpperCase()}`,
     detailLevel,
-    'zone',
-    normalizedRange,
-    options.focus,
-    options.requestTimeoutMs,
-  );
+    focus: options.focus,
+    model,
+    provider: providerCacheIdentity(provider),
+  };
+  return analyzeWithReuse(config, screenshot, cacheKey, options, async () => {
+    const analysis = await runLabelsAnalysis(
+      provider,
+      model,
+      screenshotBase64,
+      detailLevel,
+      'zone',
+      normalizedRange,
+      options.focus,
+      options.requestTimeoutMs,
+      screenshot.grid,
+    );
+    return {
+      ...analysis,
+      gridSpace: 'viewport',
+      cellSize: screenshot.grid?.cellSize,
+    };
+  });
+}
+
+/**
+ * Runs `analyze` unless an earlier result can stand in for it: first an exact match from the
+ * screenshot-keyed cache, then the last analyzed screenshot of the same tab when the visual change
+ * since then is below the near-duplicate threshold.
+ */
+async function analyzeWithReuse<T extends object>(
+  config: AuthConfig,
+  screenshot: CapturedGridScreenshot,
+  keyParts: LabelsCacheKeyParts,
+  options: { bypassCache?: boolean; nearDuplicateThreshold?: number },
+  analyze: () => Promise<T>,
+): Promise<T & { cacheHit: boolean; visualDiff?: UiVisualDiff }> {
+  const settings = getLabelsCacheSettings(config);
+  const key = labelsCacheKey(keyParts);
+  if (!options.bypassCache) {
+    const cached = readLabelsCache<T>(settings, key);
+    if (cached) return { ...cached, cacheHit: true };
+  }
+
+  const snapshotDir = join(getStateDir(config), VISUAL_STATE_DIR);
+  const snapshotKey = JSON.stringify([
+    screenshot.tabId ?? 'default',
+    keyParts.mode,
+    keyParts.detailLevel ?? '',
+    keyParts.focus?.trim() ?? '',
+    keyParts.model,
+    keyParts.provider,
+  ]);
+  const signature = screenshot.grid ? await computeVisualSignature(screenshot.image, screenshot.grid) : undefined;
+  const limits = { ttlMs: settings.ttlMs, maxEntries: settings.maxEntries };
+  const previous = signature ? readVisualSnapshot<T>(snapshotDir, snapshotKey, limits) : undefined;
+  const diff = signature && previous ? diffVisualSignatures(previous.signature, signature) : undefined;
+
+  const threshold = options.nearDuplicateThreshold ?? config.nearDuplicateThreshold;
+  if (!options.bypassCache && previous && diff && threshold > 0 && diff.changedFraction <= threshold) {
+    return { ...previous.result, cacheHit: false, visualDiff: { ...diff, reused: true } };
+  }
+
+  const result = await analyze();
+  writeLabelsCache(settings, key, result);
+  if (signature) {
+    writeVisualSnapshot(snapshotDir, snapshotKey, { signature, result }, limits);
+  }
+  return { ...result, cacheHit: false, visualDiff: diff ? { ...diff, reused: false } : undefined };
+}
+
+function providerCacheIdentity(provider: VisionProvider): string {
+  return provider.cacheIdentity || provider.name;
+}
+
+function getLabelsCacheSettings(config: AuthConfig): LabelsCacheSettings {
   return {
-    ...analysis,
-    gridSpace: 'viewport',
+    mode: config.labelsCache,
+    dir: join(getStateDir(config), LABELS_CACHE_DIR),
+    ttlMs: config.labelsCacheTtlMs,
+    maxEntries: config.labelsCacheMaxEntries,
   };
 }
 
@@ -500,7 +1306,7 @@ async function labelsByZones(config: AuthConfig, zones: Zone[], options: ZoneLab
 }
 
 async function runLabelsAnalysis(
-  apiKey: string,
+  provider: VisionProvider,
   model: string,
   screenshotBase64: string,
   detailLevel: 'high' | 'extreme',
@@ -508,128 +1314,62 @@ async function runLabelsAnalysis(
   range?: GridRange,
   focus?: string,
   requestTimeoutMs?: number,
+  grid?: GridGeometry,
 ): Promise<UiLabelsResult> {
-  const body = {
-    contents: [
-      {
-        parts: [
-          {
-            text: buildLabelsPrompt(detailLevel, mode, range, focus),
-          },
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: screenshotBase64,
-            },
-          },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.1,
-      responseMimeType: 'application/json',
-    },
-  };
-
   try {
-    const data = await geminiGenerateContent(apiKey, model, body, requestTimeoutMs);
-    const text = extractGeminiText(data);
+    const text = await provider.generate({
+      model,
+      prompt: buildLabelsPrompt(detailLevel, mode, range, focus, grid),
+      imageBase64: screenshotBase64,
+      temperature: 0.1,
+      requestTimeoutMs,
+    });
     const parsed = parseJsonObject(text);
     return normalizeLabelsResult(parsed, model);
   } catch (error) {
     const shouldRetry = /valid JSON object|returned no text content/i.test(String(error));
     if (!shouldRetry) throw error;
 
-    const retryBody = {
-      contents: [
-        {
-          parts: [
-            {
-              text: buildLabelsPrompt(detailLevel, mode, range, focus, true),
-            },
-            {
-              inlineData: {
-                mimeType: 'image/png',
-                data: screenshotBase64,
-              },
-            },
-          ],
-        },
-      ],
-      generationConfig: {
-        temperature: 0.0,
-        responseMimeType: 'application/json',
-      },
-    };
-
-    const retryData = await geminiGenerateContent(apiKey, model, retryBody, requestTimeoutMs);
-    const retryText = extractGeminiText(retryData);
+    const retryText = await provider.generate({
+      model,
+      prompt: buildLabelsPrompt(detailLevel, mode, range, focus, grid, true),
+      imageBase64: screenshotBase64,
+      temperature: 0.0,
+      requestTimeoutMs,
+    });
     const retryParsed = parseJsonObject(retryText);
     return normalizeLabelsResult(retryParsed, model);
   }
 }
 
 async function runOverviewAnalysis(
-  apiKey: string,
+  provider: VisionProvider,
   model: string,
   screenshotBase64: string,
   requestTimeoutMs?: number,
+  grid?: GridGeometry,
 ): Promise<UiOverviewResult> {
-  const body = {
-    contents: [
-      {
-        parts: [
-          {
-            text: buildOverviewPrompt(false),
-          },
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: screenshotBase64,
-            },
-          },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.1,
-      responseMimeType: 'application/json',
-    },
-  };
-
   try {
-    const data = await geminiGenerateContent(apiKey, model, body, requestTimeoutMs);
-    const text = extractGeminiText(data);
+    const text = await provider.generate({
+      model,
+      prompt: buildOverviewPrompt(false, grid),
+      imageBase64: screenshotBase64,
+      temperature: 0.1,
+      requestTimeoutMs,
+    });
     const parsed = parseJsonObject(text);
     return normalizeOverviewResult(parsed, model);
   } catch (error) {
     const shouldRetry = /valid JSON object|returned no text content/i.test(String(error));
     if (!shouldRetry) throw error;
 
-    const retryBody = {
-      contents: [
-        {
-          parts: [
-            {
-              text: buildOverviewPrompt(true),
-            },
-            {
-              inlineData: {
-                mimeType: 'image/png',
-                data: screenshotBase64,
-              },
-            },
-          ],
-        },
-      ],
-      generationConfig: {
-        temperature: 0.0,
-        responseMimeType: 'application/json',
-      },
-    };
-
-    const retryData = await geminiGenerateContent(apiKey, model, retryBody, requestTimeoutMs);
-    const retryText = extractGeminiText(retryData);
+    const retryText = await provider.generate({
+      model,
+      prompt: buildOverviewPrompt(true, grid),
+      imageBase64: screenshotBase64,
+      temperature: 0.0,
+      requestTimeoutMs,
+    });
     const retryParsed = parseJsonObject(retryText);
     return normalizeOverviewResult(retryParsed, model);
   }
@@ -645,43 +1385,200 @@ async function findInteractiveElement(
     throw new Error('findInteractiveElement() requires a non-empty query.');
   }
 
-  const model = normalizeModelName(options.model?.trim() || DEFAULT_LABELS_MODEL);
+  const provider = resolveVisionProvider(config, options.provider, 'findInteractiveElement');
+  const model = resolveModelName(config, provider, options.model);
+  if (options.input === 'accessibility') {
+    return findInteractiveElementByAccessibility(config, provider, model, normalizedQuery, options);
+  }
+  if (options.input === 'marks') {
+    return findInteractiveElementByMarks(config, provider, model, normalizedQuery, options);
+  }
+
   const high = await labels(config, {
     model,
+    provider,
     detailLevel: 'high',
+    bypassCache: options.bypassCache,
+    tabId: options.tabId,
     waitUntil: options.waitUntil,
     timeoutMs: options.timeoutMs,
     requestTimeoutMs: options.requestTimeoutMs,
+    ...pickGridSizeOptions(options),
   });
   const highMatch = findBestInteractiveElement(high.interactiveElements, normalizedQuery);
   if (highMatch) return highMatch;
 
   const extreme = await labels(config, {
     model,
+    provider,
     detailLevel: 'extreme',
+    bypassCache: options.bypassCache,
+    tabId: options.tabId,
     waitUntil: options.waitUntil,
     timeoutMs: options.timeoutMs,
     requestTimeoutMs: options.requestTimeoutMs,
+    ...pickGridSizeOptions(options),
   });
   const extremeMatch = findBestInteractiveElement(extreme.interactiveElements, normalizedQuery);
   if (extremeMatch) return extremeMatch;
 
   throw new Error(
-    `No interactive element matched query "${normalizedQuery}" from ${high.interactiveElements.length + extreme.interactiveElements.length} Gemini-labeled elements.`,
+    `No interactive element matched query "${normalizedQuery}" from ${high.interactiveElements.length + extreme.interactiveElements.length} model-labeled elements.`,
   );
 }
 
-function findBestInteractiveElement(elements: UiInteractiveElement[], query: string): UiInteractiveElement | undefined {
-  const phrase = query.toLowerCase();
-  const tokens = phrase
-    .split(/[^a-z0-9]+/)
-    .map((token) => token.trim())
-    .filter(Boolean);
-
-  let best: UiInteractiveElement | undefined;
-  let bestScore = 0;
-
-  for (const element of elements) {
+/** No-image variant of `findInteractiveElement`: the model picks a node from the accessibility tree as text. */
+async function findInteractiveElementByAccessibility(
+  config: AuthConfig,
+  provider: VisionProvider,
+  model: string,
+  query: string,
+  options: FindInteractiveElementOptions,
+): Promise<UiInteractiveElement> {
+  const snapshot = await accessibilitySnapshot(config, {
+    tabId: options.tabId,
+    waitUntil: options.waitUntil,
+    timeoutMs: options.timeoutMs,
+    ...pickGridSizeOptions(options),
+  });
+  const candidates = flattenAccessibilityNodes(snapshot.nodes).filter((node) => node.selector && node.gridRef);
+  if (!candidates.length) {
+    throw new Error('Accessibility tree has no elements with a selector and grid ref to choose from.');
+  }
+
+  const text = await provider.generate({
+    model,
+    prompt: buildAccessibilityFindPrompt(query, candidates),
+    temperature: 0.1,
+    requestTimeoutMs: options.requestTimeoutMs,
+  });
+  const parsed = parseJsonObject(text);
+  const node = candidates.find((candidate) => candidate.id === toOptionalString(parsed.id));
+  if (!node) {
+    throw new Error(`No interactive element matched query "${query}" from ${candidates.length} accessibility nodes.`);
+  }
+
+  return {
+    id: node.id,
+    gridRef: node.gridRef ?? '',
+    elementType: node.role,
+    role: node.role,
+    text: node.name ?? node.value ?? '',
+    actionability: node.states?.disabled === true ? 'disabled' : 'enabled',
+    likelyActions: [],
+    importance: 'high',
+    whyItMatters: toNonEmptyString(parsed.reason, ''),
+    confidence: toConfidence(parsed.confidence),
+    selector: node.selector,
+  };
+}
+
+/** Set-of-marks variant of `findInteractiveElement`: the model answers with a mark number, which maps to a scanned element. */
+async function findInteractiveElementByMarks(
+  config: AuthConfig,
+  provider: VisionProvider,
+  model: string,
+  query: string,
+  options: FindInteractiveElementOptions,
+): Promise<UiInteractiveElement> {
+  const marked = await markedScreenshot(config, {
+    tabId: options.tabId,
+    waitUntil: options.waitUntil,
+    timeoutMs: options.timeoutMs,
+    ...pickGridSizeOptions(options),
+  });
+  if (!marked.marks.length) {
+    throw new Error('Marked screenshot has no interactive elements to choose from.');
+  }
+
+  const text = await provider.generate({
+    model,
+    prompt: buildMarksFindPrompt(query, marked.marks),
+    imageBase64: marked.imageBase64,
+    temperature: 0.1,
+    requestTimeoutMs: options.requestTimeoutMs,
+  });
+  const parsed = parseJsonObject(text);
+  const picked = marked.marks.find((entry) => entry.mark === Number(parsed.mark));
+  if (!picked) {
+    throw new Error(`No interactive element matched query "${query}" from ${marked.marks.length} marked elements.`);
+  }
+
+  const { element } = picked;
+  return {
+    id: `mark${picked.mark}`,
+    gridRef: element.gridRef ?? '',
+    elementType: element.tag.toLowerCase(),
+    role: element.role,
+    text: element.text || element.label || element.placeholder || '',
+    actionability: element.enabled === false ? 'disabled' : element.obscured ? 'obscured' : 'enabled',
+    likelyActions: [],
+    importance: 'high',
+    whyItMatters: toNonEmptyString(parsed.reason, ''),
+    confidence: toConfidence(parsed.confidence),
+    selector: element.selector,
+    framePath: element.framePath,
+    mark: picked.mark,
+  };
+}
+
+function buildMarksFindPrompt(query: string, marks: ElementMark[]): string {
+  const rows = marks.map(({ mark, element }) =>
+    [mark, element.tag.toLowerCase(), element.role, JSON.stringify(element.text || element.label || element.placeholder || '')]
+      .filter(Boolean)
+      .join(' | '),
+  );
+
+  return [
+    'You are a senior web UI analyst.',
+    'The screenshot has a numbered, colored box over every interactive element. The same elements are listed below as: mark | tag | role | text.',
+    `Pick the single element that best matches this request: ${query}`,
+    'Return ONLY JSON (no markdown) with this exact shape:',
+    '{ "mark": 0, "reason": "string", "confidence": 0.0 }',
+    'Use a mark number exactly as drawn on the screenshot. Confidence must be 0..1.',
+    '',
+    ...rows,
+  ].join('\n');
+}
+
+function flattenAccessibilityNodes(nodes: AccessibilityNode[]): AccessibilityNode[] {
+  return nodes.flatMap((node) => [node, ...flattenAccessibilityNodes(node.children ?? [])]);
+}
+
+function buildAccessibilityFindPrompt(query: string, nodes: AccessibilityNode[]): string {
+  const rows = nodes.map((node) => {
+    const states = Object.entries(node.states ?? {})
+      .filter(([name, value]) => name !== 'focusable' && value !== false)
+      .map(([name, value]) => (value === true ? name : `${name}=${value}`));
+    const value = node.value ? `value=${JSON.stringify(node.value)}` : '';
+    return [node.id, node.role, JSON.stringify(node.name ?? ''), value, states.join(','), node.gridRef]
+      .filter(Boolean)
+      .join(' | ');
+  });
+
+  return [
+    'You are a senior web UI analyst.',
+    'Below is the accessibility tree of a web page, one element per line: id | role | name | value | states | grid ref.',
+    `Pick the single element that best matches this request: ${query}`,
+    'Return ONLY JSON (no markdown) with this exact shape:',
+    '{ "id": "string", "reason": "string", "confidence": 0.0 }',
+    'Use an id exactly as listed. Confidence must be 0..1.',
+    '',
+    ...rows,
+  ].join('\n');
+}
+
+function findBestInteractiveElement(elements: UiInteractiveElement[], query: string): UiInteractiveElement | undefined {
+  const phrase = query.toLowerCase();
+  const tokens = phrase
+    .split(/[^a-z0-9]+/)
+    .map((token) => token.trim())
+    .filter(Boolean);
+
+  let best: UiInteractiveElement | undefined;
+  let bestScore = 0;
+
+  for (const element of elements) {
     const core = [
       element.id,
       element.text,
@@ -736,29 +1633,326 @@ function findBestInteractiveElement(elements: UiInteractiveElement[], query: str
   return bestScore > 0 ? best : undefined;
 }
 
+async function resolveElement(
+  config: AuthConfig,
+  uiElement: UiInteractiveElement,
+  options: ResolveElementOptions = {},
+): Promise<ResolvedElement> {
+  const bounds = parseGridRef(uiElement.gridRef);
+  const scanOptions: ScanZonesOptions = {
+    coordinateSpace: options.coordinateSpace ?? 'viewport',
+    tabId: options.tabId,
+    waitUntil: options.waitUntil,
+    timeoutMs: options.timeoutMs,
+    ...pickGridSizeOptions(options),
+  };
+
+  const minScore = options.minScore ?? DEFAULT_MIN_MATCH_SCORE;
+  let bestSeen: ResolvedElement | undefined;
+
+  // Model grid refs are often off by a cell, so widen the zone once before giving up.
+  for (const padding of [0, 1]) {
+    const zone = {
+      start: cellLabel(Math.max(0, bounds.minCol - padding), Math.max(0, bounds.minRow - padding)),
+      end: cellLabel(bounds.maxCol + padding, bounds.maxRow + padding),
+    };
+    const [scanned] = await scanZones(config, [zone], scanOptions);
+    const candidates = scanned?.elements ?? [];
+    if (!candidates.length) continue;
+
+    let best = candidates[0];
+    let bestScore = -1;
+    for (const candidate of candidates) {
+      const score = scoreElementMatch(uiElement, candidate);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    const resolved = {
+      element: best,
+      score: Math.round(bestScore * 1000) / 1000,
+      zone: scanned.zone,
+      candidateCount: candidates.length,
+    };
+    if (resolved.score >= minScore) return resolved;
+    if (!bestSeen || resolved.score > bestSeen.score) bestSeen = resolved;
+  }
+
+  if (bestSeen) {
+    throw new Error(
+      `Best DOM match for "${uiElement.text}" around ${uiElement.gridRef} (${bestSeen.element.selector}) scored ${bestSeen.score}, below minScore ${minScore}.`,
+    );
+  }
+  throw new Error(`No interactive DOM elements found around grid ref ${uiElement.gridRef} for "${uiElement.text}".`);
+}
+
+async function findAndClick(config: AuthConfig, query: string, options: FindAndClickOptions = {}): Promise<FindAndClickResult> {
+  const uiElement = await findInteractiveElement(config, query, options);
+  const resolved: ResolvedElement = uiElement.selector
+    ? {
+        element: {
+          selector: uiElement.selector,
+          framePath: uiElement.framePath,
+          tag: uiElement.elementType,
+          text: uiElement.text,
+          role: uiElement.role,
+        },
+        score: 1,
+        zone: uiElement.gridRef,
+        candidateCount: 1,
+      }
+    : await resolveElement(config, uiElement, {
+        coordinateSpace: 'viewport',
+        tabId: options.tabId,
+        waitUntil: options.waitUntil,
+        timeoutMs: options.timeoutMs,
+        minScore: options.minScore,
+        ...pickGridSizeOptions(options),
+      });
+
+  const action = await execute(
+    config,
+    {
+      type: 'click',
+      selector: resolved.element.selector,
+      alternatives: resolved.element.alternatives,
+      framePath: resolved.element.framePath,
+      waitForNavigation: options.waitForNavigation,
+    },
+    { tabId: options.tabId },
+  );
+  return { uiElement, resolved, action };
+}
+
+/** Scores a scanned DOM element against a model-labeled element: text dominates, role and type break ties. */
+function scoreElementMatch(uiElement: UiInteractiveElement, element: ElementInfo): number {
+  const wanted = normalizeMatchText(uiElement.text);
+  const domText = normalizeMatchText([element.text, element.label, element.placeholder].filter(Boolean).join(' '));
+
+  let textScore = 0;
+  if (wanted && domText) {
+    if (domText === wanted) {
+      textScore = 1;
+    } else if (domText.includes(wanted) || wanted.includes(domText)) {
+      textScore = 0.75;
+    } else {
+      const wantedTokens = wanted.split(' ');
+      const domTokens = new Set(domText.split(' '));
+      const overlap = wantedTokens.filter((token) => domTokens.has(token)).length;
+      textScore = (overlap / wantedTokens.length) * 0.6;
+    }
+  }
+
+  const domKinds = describeElementKinds(element);
+  const role = uiElement.role?.trim().toLowerCase();
+  const roleScore = role && domKinds.has(role) ? 1 : 0;
+  const typeWords = normalizeMatchText(uiElement.elementType).split(' ').filter(Boolean);
+  const typeScore = typeWords.some((word) => domKinds.has(word)) ? 1 : 0;
+
+  return textScore * 0.7 + roleScore * 0.15 + typeScore * 0.15;
+}
+
+/** Words that describe what a DOM element is (tag, input type, explicit or implicit role). */
+function describeElementKinds(element: ElementInfo): Set<string> {
+  const tag = element.tag.toLowerCase();
+  const type = element.type?.toLowerCase();
+  const kinds = new Set<string>([tag]);
+  if (type) kinds.add(type);
+  if (element.role) kinds.add(element.role.toLowerCase());
+
+  if (tag === 'a') kinds.add('link');
+  if (tag === 'button' || type === 'submit' || type === 'button') kinds.add('button');
+  if (tag === 'select') {
+    kinds.add('combobox');
+    kinds.add('dropdown');
+    kinds.add('select');
+  }
+  const textInputTypes = ['text', 'search', 'email', 'password', 'url', 'tel', 'number'];
+  if (tag === 'textarea' || (tag === 'input' && textInputTypes.includes(type ?? 'text'))) {
+    kinds.add('textbox');
+    kinds.add('input');
+    kinds.add('field');
+  }
+  if (type === 'search') kinds.add('searchbox');
+  return kinds;
+}
+
+function normalizeMatchText(value: string | undefined): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
 async function scanZones(config: AuthConfig, zones: Zone[], options: ScanZonesOptions = {}): Promise<ZoneResult[]> {
   await launchDaemon(config);
   const result = await runBridge(config, {
     op: 'scanZones',
     zones,
+    tabId: options.tabId,
     waitUntil: options.waitUntil,
     timeoutMs: options.timeoutMs,
     coordinateSpace: options.coordinateSpace,
+    ...pickGridSizeOptions(options),
   });
 
   return (result?.zones ?? []) as ZoneResult[];
 }
 
-async function execute(config: AuthConfig, action: Action): Promise<void> {
+async function accessibilitySnapshot(
+  config: AuthConfig,
+  options: AccessibilitySnapshotOptions = {},
+): Promise<AccessibilitySnapshot> {
+  await launchDaemon(config);
+  const result = await runBridge(config, {
+    op: 'accessibilitySnapshot',
+    zone: options.zone ? normalizeGridRange(options.zone) : undefined,
+    interestingOnly: options.interestingOnly,
+    coordinateSpace: options.coordinateSpace,
+    ...pickGridSizeOptions(options),
+    tabId: options.tabId,
+    waitUntil: options.waitUntil,
+    timeoutMs: options.timeoutMs,
+  });
+
+  return result as unknown as AccessibilitySnapshot;
+}
+
+async function extract(config: AuthConfig, options: ExtractOptions): Promise<ExtractResult> {
   await launchDaemon(config);
-  await runBridge(config, {
+  const result = await runBridge(config, {
+    op: 'extract',
+    kind: options.kind,
+    zone: options.zone ? normalizeGridRange(options.zone) : undefined,
+    selector: options.selector,
+    coordinateSpace: options.coordinateSpace,
+    ...pickGridSizeOptions(options),
+    tabId: options.tabId,
+    waitUntil: options.waitUntil,
+    timeoutMs: options.timeoutMs,
+  });
+
+  return result as unknown as ExtractResult;
+}
+
+async function execute(config: AuthConfig, action: Action, options: ExecuteOptions = {}): Promise<ActionResult> {
+  await launchDaemon(config);
+  const result = await runBridge(config, {
     op: 'execute',
-    action,
+    action: normalizeAction(action),
+    attachConsoleErrors: options.attachConsoleErrors,
+    tabId: options.tabId,
+  });
+
+  return {
+    url: String(result.url ?? ''),
+    title: String(result.title ?? ''),
+    navigated: result.navigated === true,
+    durationMs: Number(result.durationMs) || 0,
+    fallbackSelector: toOptionalString(result.fallbackSelector),
+    data: isRecord(result.data) ? (result.data as ActionData) : undefined,
+  };
+}
+
+async function executeSequence(
+  config: AuthConfig,
+  actions: Action[],
+  options: ExecuteSequenceOptions = {},
+): Promise<ExecuteSequenceResult> {
+  if (!actions.length) {
+    throw new Error('executeSequence() requires at least one action.');
+  }
+
+  await launchDaemon(config);
+  const result = await runBridge(
+    config,
+    {
+      op: 'executeSequence',
+      actions: actions.map(normalizeAction),
+      stopOnError: options.stopOnError ?? true,
+      screenshotOnError: Boolean(options.screenshotOnError),
+      tabId: options.tabId,
+    },
+    sequenceTimeoutMs(actions),
+  );
+
+  return {
+    ok: result.ok === true,
+    steps: (Array.isArray(result.steps) ? result.steps : []) as ActionStepResult[],
+  };
+}
+
+/**
+ * Bridge timeout for a whole sequence: every step may use its full wait (explicit `timeoutMs` or the
+ * bridge's 30s default, plus a navigation wait), so one shared `BRIDGE_TIMEOUT_MS` is too short for long runs.
+ */
+function sequenceTimeoutMs(actions: Action[]): number {
+  const waitMs = (value: unknown): number => (Number(value) > 0 ? Number(value) : ACTION_TIMEOUT_MS);
+  const stepsMs = actions.reduce((total, action) => {
+    const navigation = 'waitForNavigation' in action ? action.waitForNavigation : undefined;
+    const navigationMs = navigation ? waitMs(navigation === true ? undefined : navigation.timeoutMs) : 0;
+    return total + waitMs('timeoutMs' in action ? action.timeoutMs : undefined) + navigationMs;
+  }, 0);
+  return Math.max(BRIDGE_TIMEOUT_MS, stepsMs + CDP_WAIT_TIMEOUT_MS);
+}
+
+async function captureResponses(config: AuthConfig, options: CaptureResponsesOptions = {}): Promise<CaptureResponsesResult> {
+  if (options.urlMatches) {
+    try {
+      new RegExp(options.urlMatches);
+    } catch {
+      throw new Error(`captureResponses() urlMatches is not a valid regular expression: ${options.urlMatches}`);
+    }
+  }
+
+  await launchDaemon(config);
+  const result = await runBridge(config, {
+    op: 'captureResponses',
+    urlMatches: options.urlMatches,
+    durationMs: options.durationMs,
+    maxBodyBytes: options.maxBodyBytes,
+    action: options.action ? normalizeAction(options.action) : undefined,
+    tabId: options.tabId,
   });
+
+  return {
+    responses: (Array.isArray(result.responses) ? result.responses : []) as CapturedResponse[],
+    durationMs: Number(result.durationMs) || 0,
+    action: isRecord(result.action) ? (result.action as unknown as ActionResult) : undefined,
+  };
+}
+
+async function getConsoleLogs(config: AuthConfig, options: ConsoleLogsOptions = {}): Promise<ConsoleLogsResult> {
+  await launchDaemon(config);
+  const result = await runBridge(config, {
+    op: 'getConsoleLogs',
+    since: options.since,
+    level: options.level,
+    limit: options.limit,
+    tabId: options.tabId,
+  });
+
+  return {
+    entries: (Array.isArray(result.entries) ? result.entries : []) as ConsoleLogEntry[],
+    dropped: Number(result.dropped) || 0,
+  };
+}
+
+/** The bridge may run in another working directory, so upload paths are made absolute here. */
+function normalizeAction(action: Action): Action {
+  if (action.type !== 'uploadFile') return action;
+  const files = Array.isArray(action.files) ? action.files : [action.files];
+  return { ...action, files: files.map((file) => resolve(file)) };
 }
 
 async function listTabs(config: AuthConfig): Promise<TabInfo[]> {
   await launchDaemon(config);
+  return fetchTabs(config);
+}
+
+async function fetchTabs(config: AuthConfig): Promise<TabInfo[]> {
   const response = await fetch(`${getCdpUrl(config).replace(/\/$/, '')}/json`);
   if (!response.ok) {
     throw new Error(`Failed to list tabs from CDP endpoint: HTTP ${response.status}`);
@@ -767,58 +1961,367 @@ async function listTabs(config: AuthConfig): Promise<TabInfo[]> {
   const targets = (await response.json()) as Array<Record<string, unknown>>;
   return targets
     .filter((target) => target.type === 'page')
-    .map((target) => ({
-      id: String(target.id || ''),
-      type: String(target.type || ''),
-      title: String(target.title || ''),
-      url: String(target.url || ''),
-    }));
+    .map(toTabInfo);
 }
 
-async function geminiGenerateContent(
-  apiKey: string,
-  model: string,
-  body: Record<string, unknown>,
-  requestTimeoutMs?: number,
-): Promise<GeminiResponse> {
-  const url = `${GEMINI_API_BASE}/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(apiKey)}`;
-  const timeoutMs = normalizeTimeoutMs(requestTimeoutMs, GEMINI_REQUEST_TIMEOUT_MS);
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+async function newTab(config: AuthConfig, url?: string): Promise<TabInfo> {
+  await launchDaemon(config);
+  // Chrome unescapes the query of `/json/new`; `encodeURI` would leave `#` in place and the fragment would be lost.
+  const target = url?.trim() ? `?${encodeURIComponent(url.trim())}` : '';
+  const response = await fetch(`${getCdpUrl(config).replace(/\/$/, '')}/json/new${target}`, { method: 'PUT' });
+  if (!response.ok) {
+    throw new Error(`Failed to open tab from CDP endpoint: HTTP ${response.status}`);
+  }
+
+  const tab = toTabInfo((await response.json()) as Record<string, unknown>);
+  writeCurrentTabId(config, tab.id);
+  return tab;
+}
+
+async function closeTab(config: AuthConfig, tabId: string): Promise<void> {
+  const id = requireTabId(tabId);
+  await launchDaemon(config);
+  const response = await fetch(`${getCdpUrl(config).replace(/\/$/, '')}/json/close/${encodeURIComponent(id)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to close tab ${id}: HTTP ${response.status}`);
+  }
+
+  if (readCurrentTabId(config) === id) {
+    writeCurrentTabId(config, undefined);
+  }
+}
+
+async function activateTab(config: AuthConfig, tabId: string): Promise<TabInfo> {
+  const id = requireTabId(tabId);
+  const tab = (await listTabs(config)).find((candidate) => candidate.id === id);
+  if (!tab) {
+    throw new Error(`No tab found with id ${id}.`);
+  }
+
+  const response = await fetch(`${getCdpUrl(config).replace(/\/$/, '')}/json/activate/${encodeURIComponent(id)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to activate tab ${id}: HTTP ${response.status}`);
+  }
+
+  writeCurrentTabId(config, id);
+  return tab;
+}
+
+async function getCurrentTab(config: AuthConfig): Promise<TabInfo | null> {
+  await launchDaemon(config);
+  return resolveCurrentTab(config);
+}
+
+/** Looks up the stored current tab, dropping the pointer when that tab no longer exists. */
+async function resolveCurrentTab(config: AuthConfig): Promise<TabInfo | null> {
+  const id = readCurrentTabId(config);
+  if (!id) return null;
+
+  const tab = (await fetchTabs(config)).find((candidate) => candidate.id === id);
+  if (!tab) {
+    writeCurrentTabId(config, undefined);
+    return null;
+  }
+  return tab;
+}
+
+function toTabInfo(target: Record<string, unknown>): TabInfo {
+  return {
+    id: String(target.id || ''),
+    type: String(target.type || ''),
+    title: String(target.title || ''),
+    url: String(target.url || ''),
+  };
+}
+
+function requireTabId(tabId: string): string {
+  const id = String(tabId || '').trim();
+  if (!id) throw new Error('tabId is required.');
+  return id;
+}
+
+/** Returns the pid from the daemon pidfile, or `null` when it is missing or that process has exited. */
+function readDaemonPid(config: AuthConfig): number | null {
+  const path = join(getStateDir(config), DAEMON_PID_FILE);
+  if (!existsSync(path)) return null;
+  const pid = Number.parseInt(readFileSync(path, 'utf8').trim(), 10);
+  if (!Number.isInteger(pid) || pid <= 0 || !isProcessAlive(pid) || !isDaemonProcess(config, pid)) return null;
+  return pid;
+}
 
+/**
+ * Guards against pid reuse after Chrome exits: the process must carry this daemon's debugging port and
+ * user-data dir on its command line. Platforms without a readable command line fall back to the pid alone.
+ */
+function isDaemonProcess(config: AuthConfig, pid: number): boolean {
+  const commandLine = readProcessCommandLine(pid);
+  if (commandLine === undefined) return process.platform === 'win32';
+  if (!commandLine.includes(`--remote-debugging-port=${config.remoteDebuggingPort}`)) return false;
+  return !config.userDataDir || commandLine.includes(`--user-data-dir=${config.userDataDir}`);
+}
+
+function readProcessCommandLine(pid: number): string | undefined {
+  if (process.platform === 'win32') return undefined;
+  if (process.platform === 'linux') {
+    try {
+      return readFileSync(`/proc/${pid}/cmdline`, 'utf8').split('\0').join(' ');
+    } catch {
+      return undefined;
+    }
+  }
+  const result = spawnSync('ps', ['-p', String(pid), '-o', 'command='], { encoding: 'utf8' });
+  return result.status === 0 ? result.stdout.trim() : undefined;
+}
+
+function writeDaemonPid(config: AuthConfig, pid: number | null): void {
+  const path = join(getStateDir(config), DAEMON_PID_FILE);
+  if (pid === null) {
+    rmSync(path, { force: true });
+    return;
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, String(pid));
+}
+
+/** True for a live process this user may signal; EPERM means another user's process, which is never ours. */
+function isProcessAlive(pid: number): boolean {
   try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    });
-    const json = (await res.json()) as GeminiResponse & Record<string, unknown>;
-    if (!res.ok) {
-      throw new Error(`Gemini API error ${res.status}: ${JSON.stringify(json)}`);
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getStateDir(config: AuthConfig): string {
+  return config.userDataDir || join(tmpdir(), 'kazibee-chrome-browser');
+}
+
+async function setNetworkRules(config: AuthConfig, rules: NetworkRule[]): Promise<NetworkRule[]> {
+  const normalized = rules.map(normalizeNetworkRule);
+  const path = join(getStateDir(config), NETWORK_RULES_FILE);
+  if (!normalized.length) {
+    rmSync(path, { force: true });
+    return normalized;
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(normalized, null, 2));
+  return normalized;
+}
+
+async function startHarRecording(config: AuthConfig, path: string): Promise<HarRecording> {
+  if (!path?.trim()) {
+    throw new Error('startHarRecording() requires an output path.');
+  }
+
+  const harPath = resolve(path.trim());
+  mkdirSync(dirname(harPath), { recursive: true });
+  writeFileSync(
+    harPath,
+    JSON.stringify({ log: { version: '1.2', creator: { name: 'kazibee-chrome-browser', version: '1.0' }, pages: [], entries: [] } }),
+  );
+  const statePath = join(getStateDir(config), HAR_RECORDING_FILE);
+  mkdirSync(dirname(statePath), { recursive: true });
+  writeFileSync(statePath, JSON.stringify({ path: harPath }));
+
+  // Attach the recorder now so a persistent bridge also records traffic between calls.
+  await launchDaemon(config);
+  await runBridge(config, { op: 'syncHarRecording' });
+  return { path: harPath, entries: 0 };
+}
+
+async function stopHarRecording(config: AuthConfig): Promise<HarRecording | null> {
+  const recording = readHarRecording(config);
+  if (!recording) return null;
+
+  rmSync(join(getStateDir(config), HAR_RECORDING_FILE), { force: true });
+  await launchDaemon(config);
+  await runBridge(config, { op: 'syncHarRecording' });
+
+  let entries = 0;
+  try {
+    const har = JSON.parse(readFileSync(recording.path, 'utf8')) as { log?: { entries?: unknown[] } };
+    entries = har.log?.entries?.length ?? 0;
+  } catch {
+    entries = 0;
+  }
+  return { path: recording.path, entries };
+}
+
+async function exportState(config: AuthConfig, options: StateOriginsOptions = {}): Promise<StorageState> {
+  await launchDaemon(config);
+  const result = await runBridge(config, {
+    op: 'exportState',
+    origins: normalizeStateOrigins(options.origins, 'exportState'),
+  });
+
+  return {
+    cookies: (Array.isArray(result.cookies) ? result.cookies : []) as StorageStateCookie[],
+    origins: (Array.isArray(result.origins) ? result.origins : []) as StorageStateOrigin[],
+  };
+}
+
+async function importState(config: AuthConfig, state: StorageState): Promise<StateChangeResult> {
+  if (!isRecord(state) || !Array.isArray(state.cookies) || !Array.isArray(state.origins)) {
+    throw new Error('importState() requires a storage state with `cookies` and `origins` arrays.');
+  }
+  const origins = state.origins.map((entry) => ({
+    ...entry,
+    origin: normalizeStateOrigin(entry.origin, 'importState'),
+  }));
+
+  await launchDaemon(config);
+  const result = await runBridge(config, { op: 'importState', state: { cookies: state.cookies, origins } });
+  return {
+    cookies: Number(result.cookies) || 0,
+    origins: Number(result.origins) || 0,
+    skippedSessionStorage: Array.isArray(result.skippedSessionStorage) ? result.skippedSessionStorage.map(String) : [],
+  };
+}
+
+async function clearState(config: AuthConfig, options: StateOriginsOptions = {}): Promise<StateChangeResult> {
+  await launchDaemon(config);
+  const result = await runBridge(config, {
+    op: 'clearState',
+    origins: normalizeStateOrigins(options.origins, 'clearState'),
+  });
+  return { cookies: Number(result.cookies) || 0, origins: Number(result.origins) || 0 };
+}
+
+function normalizeStateOrigins(origins: string[] | undefined, caller: string): string[] | undefined {
+  if (!origins) return undefined;
+  return [...new Set(origins.map((origin) => normalizeStateOrigin(origin, caller)))];
+}
+
+function normalizeStateOrigin(origin: string, caller: string): string {
+  try {
+    return new URL(String(origin).trim()).origin;
+  } catch {
+    throw new Error(`${caller}() origin is not a valid URL: ${String(origin)}`);
+  }
+}
+
+async function setCredential(
+  config: AuthConfig,
+  name: string,
+  fields: Record<string, string>,
+  options: SetCredentialOptions,
+): Promise<CredentialInfo> {
+  const passphrase = requireCredentialsPassphrase(config, 'setCredential');
+  const key = name?.trim();
+  if (!key) throw new Error('setCredential() requires a credential name.');
+  const entries = Object.entries(isRecord(fields) ? fields : {}).filter(([field]) => field.trim());
+  if (!entries.length) throw new Error('setCredential() requires at least one field, e.g. { username, password }.');
+
+  // An unpinned secret could be typed into any page a model navigates to, so the origin is required.
+  if (!options?.origin?.trim()) {
+    throw new Error('setCredential() requires options.origin, the site the credential may be filled on.');
+  }
+  let origin: string;
+  try {
+    origin = new URL(options.origin.trim()).origin;
+  } catch {
+    throw new Error(`setCredential() origin is not a valid URL: ${options.origin}`);
+  }
+
+  const vault = readCredentialVault(config.credentialsFile, passphrase);
+  const values = Object.fromEntries(entries.map(([field, value]) => [field, String(value)]));
+  vault.credentials[key] = { origin, fields: values };
+  writeCredentialVault(config.credentialsFile, passphrase, vault);
+  return { name: key, origin, fields: entries.map(([field]) => field) };
+}
+
+async function listCredentials(config: AuthConfig): Promise<CredentialInfo[]> {
+  const passphrase = requireCredentialsPassphrase(config, 'listCredentials');
+  const vault = readCredentialVault(config.credentialsFile, passphrase);
+  return Object.entries(vault.credentials).map(([name, entry]) => ({
+    name,
+    origin: entry.origin,
+    fields: Object.keys(entry.fields ?? {}),
+  }));
+}
+
+async function removeCredential(config: AuthConfig, name: string): Promise<boolean> {
+  const passphrase = requireCredentialsPassphrase(config, 'removeCredential');
+  const vault = readCredentialVault(config.credentialsFile, passphrase);
+  if (!(name in vault.credentials)) return false;
+  delete vault.credentials[name];
+  writeCredentialVault(config.credentialsFile, passphrase, vault);
+  return true;
+}
+
+function requireCredentialsPassphrase(config: AuthConfig, caller: string): string {
+  if (!config.credentialsPassphrase) {
+    throw new Error(`Missing CHROME_CREDENTIALS_PASSPHRASE in environment. ${caller}() requires it.`);
+  }
+  return config.credentialsPassphrase;
+}
+
+function readHarRecording(config: AuthConfig): { path: string } | undefined {
+  const path = join(getStateDir(config), HAR_RECORDING_FILE);
+  if (!existsSync(path)) return undefined;
+  try {
+    const state = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+    const harPath = isRecord(state) ? toOptionalString(state.path) : undefined;
+    return harPath ? { path: harPath } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readNetworkRules(config: AuthConfig): NetworkRule[] {
+  const path = join(getStateDir(config), NETWORK_RULES_FILE);
+  if (!existsSync(path)) return [];
+  try {
+    const rules = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+    return Array.isArray(rules) ? (rules as NetworkRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeNetworkRule(rule: NetworkRule): NetworkRule {
+  const urlPattern = rule.urlPattern?.trim();
+  if (!urlPattern) {
+    throw new Error('Network rules require a non-empty urlPattern.');
+  }
+  if (rule.type === 'block') return { ...rule, urlPattern };
+  if (rule.type === 'setHeaders') {
+    if (!isRecord(rule.headers) || !Object.keys(rule.headers).length) {
+      throw new Error(`setHeaders rule for ${urlPattern} requires headers.`);
     }
-    return json;
-  } catch (error) {
-    if (isAbortError(error)) {
-      throw new Error(`Gemini request timed out after ${timeoutMs}ms.`);
+    return { ...rule, urlPattern };
+  }
+  if (rule.type === 'fulfill') {
+    if (!rule.bodyPath) return { ...rule, urlPattern };
+    const bodyPath = resolve(rule.bodyPath);
+    if (!existsSync(bodyPath)) {
+      throw new Error(`fulfill rule for ${urlPattern} points at a missing bodyPath: ${bodyPath}`);
     }
-    throw error;
-  } finally {
-    clearTimeout(timeout);
+    return { ...rule, urlPattern, bodyPath };
   }
+  throw new Error(`Unknown network rule type: ${String((rule as { type?: unknown }).type)}`);
 }
 
-function extractGeminiText(data: GeminiResponse): string {
-  const texts = (data.candidates ?? [])
-    .flatMap((candidate) => candidate.content?.parts ?? [])
-    .map((part) => part.text?.trim() || '')
-    .filter(Boolean);
-
-  if (!texts.length) {
-    throw new Error(`Gemini returned no text content: ${JSON.stringify(data)}`);
+function readCurrentTabId(config: AuthConfig): string | undefined {
+  const path = join(getStateDir(config), CURRENT_TAB_FILE);
+  if (!existsSync(path)) return undefined;
+  try {
+    const state = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+    return isRecord(state) ? toOptionalString(state.tabId) : undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  return texts.join('\n');
+function writeCurrentTabId(config: AuthConfig, tabId: string | undefined): void {
+  const path = join(getStateDir(config), CURRENT_TAB_FILE);
+  if (!tabId) {
+    rmSync(path, { force: true });
+    return;
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({ tabId }));
 }
 
 function parseJsonObject(text: string): Record<string, unknown> {
@@ -838,7 +2341,7 @@ function parseJsonObject(text: string): Record<string, unknown> {
     }
   }
 
-  throw new Error(`Gemini response was not valid JSON object. Raw response: ${trimmed}`);
+  throw new Error(`Vision model response was not valid JSON object. Raw response: ${trimmed}`);
 }
 
 function normalizeLabelsResult(value: Record<string, unknown>, model: string): UiLabelsResult {
@@ -938,6 +2441,7 @@ function buildLabelsPrompt(
   mode: LabelsPromptMode,
   range?: GridRange,
   focus?: string,
+  grid?: GridGeometry,
   compactRetry = false,
 ): string {
   const keyAreasOnly = detailLevel === 'high';
@@ -954,6 +2458,7 @@ function buildLabelsPrompt(
     'You are a senior web UI analyst.',
     'Analyze the provided browser screenshot, which already includes an overlaid grid labeling each cell.',
     'Use those grid labels (for example A1, C4, B2:D4) in your output for locations.',
+    ...describeGrid(grid),
     modeInstruction,
     depthInstruction,
     focusInstruction,
@@ -1026,10 +2531,11 @@ function buildLabelsPrompt(
   return lines.join('\n');
 }
 
-function buildOverviewPrompt(compactRetry: boolean): string {
+function buildOverviewPrompt(compactRetry: boolean, grid?: GridGeometry): string {
   const lines = [
     'You are a senior web UI analyst.',
     'Analyze the browser screenshot with grid labels.',
+    ...describeGrid(grid),
     'Return ONLY JSON (no markdown) with this exact shape:',
     '{',
     '  "pageSummary": "string",',
@@ -1057,6 +2563,30 @@ function buildOverviewPrompt(compactRetry: boolean): string {
   return lines.join('\n');
 }
 
+/** Prompt lines that pin down the grid the screenshot was rendered with, so model refs use the same cells. */
+function describeGrid(grid?: GridGeometry): string[] {
+  if (!grid) return [];
+
+  const first = cellLabel(grid.colOffset, grid.rowOffset);
+  const last = cellLabel(grid.colOffset + grid.cols - 1, grid.rowOffset + grid.rows - 1);
+  const lines = [
+    `The grid has ${grid.cols} columns and ${grid.rows} rows of ${grid.cellSize}x${grid.cellSize}px cells, from ${first} to ${last}.`,
+  ];
+  if (grid.cellLabels === false) {
+    lines.push('Cells are not labeled individually: read column letters from the top margin and row numbers from the left margin.');
+  }
+  return lines;
+}
+
+function pickGridSizeOptions(options: GridSizeOptions): GridSizeOptions {
+  return {
+    cellSize: options.cellSize,
+    gridColumns: options.gridColumns,
+    gridRows: options.gridRows,
+    cellLabels: options.cellLabels,
+  };
+}
+
 function normalizeGridRange(range: GridRange): GridRange {
   const start = String(range.start || '').trim();
   const end = String(range.end || '').trim();
@@ -1066,20 +2596,12 @@ function normalizeGridRange(range: GridRange): GridRange {
   return { start, end };
 }
 
-function normalizeModelName(model: string): string {
-  return model.startsWith('models/') ? model.slice('models/'.length) : model;
+function resolveModelName(config: AuthConfig, provider: VisionProvider, model?: string): string {
+  return normalizeModelName(model?.trim() || config.visionModel || provider.defaultModel);
 }
 
-function normalizeTimeoutMs(value: unknown, fallbackMs: number): number {
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed) || parsed <= 0) return fallbackMs;
-  return parsed;
-}
-
-function isAbortError(error: unknown): boolean {
-  if (!error || typeof error !== 'object') return false;
-  const candidate = error as { name?: string };
-  return candidate.name === 'AbortError';
+function normalizeModelName(model: string): string {
+  return model.startsWith('models/') ? model.slice('models/'.length) : model;
 }
 
 function toArray(value: unknown): unknown[] {
@@ -1125,11 +2647,16 @@ function getCdpUrl(config: AuthConfig): string {
 }
 
 async function isCdpReachable(cdpUrl: string): Promise<boolean> {
+  return Boolean(await fetchCdpVersion(cdpUrl));
+}
+
+async function fetchCdpVersion(cdpUrl: string): Promise<Record<string, unknown> | undefined> {
   try {
     const response = await fetch(`${cdpUrl.replace(/\/$/, '')}/json/version`);
-    return response.ok;
+    if (!response.ok) return undefined;
+    return toRecord(await response.json());
   } catch {
-    return false;
+    return undefined;
   }
 }
 
@@ -1142,7 +2669,188 @@ async function waitForCdp(cdpUrl: string, timeoutMs: number): Promise<boolean> {
   return false;
 }
 
-async function runBridge(config: AuthConfig, payload: Record<string, unknown>): Promise<Record<string, unknown>> {
+async function runBridge(
+  config: AuthConfig,
+  input: Record<string, unknown>,
+  timeoutMs = BRIDGE_TIMEOUT_MS,
+): Promise<Record<string, unknown>> {
+  // Operations without an explicit tab default to the current tab pointer, when one is set; the bridge
+  // checks that the tab still exists, so no `/json` round trip is needed here.
+  const currentTabId = input.tabId || input.newWindow ? undefined : readCurrentTabId(config);
+  const payload = {
+    ...input,
+    currentTabId,
+    networkRules: readNetworkRules(config),
+    harRecording: readHarRecording(config),
+    harReplay: config.harReplay,
+  };
+
+  if (config.persistentBridge) {
+    const result = await runBridgeServer(config, payload, timeoutMs);
+    if (result) return result;
+  }
+  return runBridgeOnce(config, payload, timeoutMs);
+}
+
+/**
+ * Sends the payload to the long-lived bridge server, starting it when needed.
+ * Resolves `undefined` when the server cannot be reached so callers can fall back to one-shot mode.
+ */
+async function runBridgeServer(
+  config: AuthConfig,
+  payload: Record<string, unknown>,
+  timeoutMs: number,
+): Promise<Record<string, unknown> | undefined> {
+  const socketPath = getBridgeSocketPath(config);
+  if (!(await isBridgeServerListening(socketPath))) {
+    const child = spawn('node', [BRIDGE_PATH, '--serve', JSON.stringify({ cdpUrl: getCdpUrl(config), socketPath })], {
+      detached: true,
+      stdio: 'ignore',
+      env: getBridgeEnv(config),
+    });
+    child.on('error', () => {});
+    child.unref();
+
+    const start = Date.now();
+    let ready = false;
+    while (Date.now() - start < BRIDGE_SERVER_START_TIMEOUT_MS) {
+      if (await isBridgeServerListening(socketPath)) {
+        ready = true;
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    if (!ready) return undefined;
+  }
+
+  const op = typeof payload.op === 'string' ? payload.op : 'unknown';
+  return new Promise((resolve, reject) => {
+    const socket = connect(socketPath);
+    let settled = false;
+    let connected = false;
+    let buffer = '';
+    const timeout = setTimeout(() => {
+      settle(() => reject(new Error(`CDP bridge timed out after ${timeoutMs}ms (op: ${op}).`)));
+    }, timeoutMs);
+
+    const settle = (handler: () => void): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      socket.destroy();
+      handler();
+    };
+
+    socket.setEncoding('utf8');
+    socket.on('connect', () => {
+      connected = true;
+      socket.write(`${JSON.stringify({ jsonrpc: '2.0', id: 1, method: op, params: payload })}\n`);
+    });
+
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline < 0) return;
+
+      const line = buffer.slice(0, newline);
+      settle(() => {
+        try {
+          const response = JSON.parse(line) as { result?: Record<string, unknown>; error?: { message?: string } };
+          if (response.error) {
+            reject(new Error(response.error.message || `CDP bridge server failed (op: ${op}).`));
+            return;
+          }
+          resolve(response.result ?? {});
+        } catch (error) {
+          reject(new Error(`Failed to parse bridge server output: ${String(error)}\nOutput: ${line}`));
+        }
+      });
+    });
+
+    // Connection-level failures before the request was sent mean the server is gone; fall back.
+    socket.on('error', (error) => {
+      settle(() => (connected ? reject(error) : resolve(undefined)));
+    });
+
+    socket.on('close', () => {
+      settle(() => reject(new Error(`CDP bridge server closed the connection (op: ${op}).`)));
+    });
+  });
+}
+
+/** Asks a running bridge server to exit; a no-op when none is listening. */
+async function stopBridgeServer(config: AuthConfig): Promise<void> {
+  const socketPath = getBridgeSocketPath(config);
+  if (!(await isBridgeServerListening(socketPath))) return;
+
+  await new Promise<void>((resolve) => {
+    const socket = connect(socketPath);
+    const done = (): void => {
+      socket.destroy();
+      resolve();
+    };
+    socket.setTimeout(BRIDGE_SERVER_START_TIMEOUT_MS, done);
+    socket.on('connect', () => {
+      socket.write(`${JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'shutdown' })}\n`);
+    });
+    socket.on('data', done);
+    socket.on('error', done);
+    socket.on('close', done);
+  });
+}
+
+/**
+ * Environment of a bridge process. The vault passphrase travels only here: unlike argv it is not
+ * visible to other users, and unlike the request payload it never crosses the bridge socket.
+ */
+function getBridgeEnv(config: AuthConfig): NodeJS.ProcessEnv {
+  if (!config.credentialsPassphrase) return process.env;
+  const vault = { path: config.credentialsFile, passphrase: config.credentialsPassphrase };
+  return { ...process.env, KAZIBEE_CREDENTIAL_VAULT: JSON.stringify(vault) };
+}
+
+function getBridgeSocketPath(config: AuthConfig): string {
+  // A server holds the vault it was started with, so another vault or passphrase gets its own server.
+  const vaultKey = config.credentialsPassphrase ? `\n${config.credentialsFile}\n${config.credentialsPassphrase}` : '';
+  const key = createHash('sha1').update(`${getCdpUrl(config)}${vaultKey}`).digest('hex').slice(0, 12);
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\kazibee-chrome-bridge-${key}`;
+  }
+  return join(getBridgeRuntimeDir(), `bridge-${key}.sock`);
+}
+
+/**
+ * Per-user 0700 directory for bridge sockets. The bridge socket is unauthenticated, so other local users
+ * must neither connect to it nor bind its path before the bridge does.
+ */
+function getBridgeRuntimeDir(): string {
+  const uid = typeof process.getuid === 'function' ? process.getuid() : undefined;
+  const dir = join(tmpdir(), `kazibee-chrome-bridge-${uid ?? 'user'}`);
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const stats = lstatSync(dir);
+  if (!stats.isDirectory() || (uid !== undefined && stats.uid !== uid)) {
+    throw new Error(`Bridge socket directory ${dir} is not a directory owned by the current user.`);
+  }
+  chmodSync(dir, 0o700);
+  return dir;
+}
+
+async function isBridgeServerListening(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect(socketPath);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+async function runBridgeOnce(
+  config: AuthConfig,
+  payload: Record<string, unknown>,
+  timeoutMs: number,
+): Promise<Record<string, unknown>> {
   const task = {
     cdpUrl: getCdpUrl(config),
     payload,
@@ -1151,6 +2859,7 @@ async function runBridge(config: AuthConfig, payload: Record<string, unknown>):
   return new Promise((resolve, reject) => {
     const child = spawn('node', [BRIDGE_PATH, JSON.stringify(task)], {
       stdio: ['ignore', 'pipe', 'pipe'],
+      env: getBridgeEnv(config),
     });
 
     let settled = false;
@@ -1161,8 +2870,8 @@ async function runBridge(config: AuthConfig, payload: Record<string, unknown>):
       settled = true;
       child.kill('SIGKILL');
       const op = typeof payload.op === 'string' ? payload.op : 'unknown';
-      reject(new Error(`CDP bridge timed out after ${BRIDGE_TIMEOUT_MS}ms (op: ${op}).`));
-    }, BRIDGE_TIMEOUT_MS);
+      reject(new Error(`CDP bridge timed out after ${timeoutMs}ms (op: ${op}).`));
+    }, timeoutMs);
 
     const settle = (handler: () => void): void => {
       if (settled) return;
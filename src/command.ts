@@ -1,5 +1,15 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
 import main from './index';
-import type { Env } from './auth';
+import { getAuthConfig, loadProfiles, type Env } from './auth';
+import {
+  createChromeBrowserClient,
+  type Action,
+  type ConsoleLogLevel,
+  type ExtractKind,
+  type NetworkRule,
+  type StorageState,
+} from './chrome-client';
 
 export interface LoginResult {
   ok: true;
@@ -20,15 +30,15 @@ export async function login(): Promise<LoginResult> {
 }
 
 export async function open(first?: string | string[], ...rest: string[]) {
-  const args = normalizeArgs(first, rest);
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args } = takeOption(input, '--tab');
   const [url, ...flags] = args;
 
   if (!url) {
-    throw new Error('Usage: kazibee chrome-browser open <url> [--new-window]');
+    throw new Error('Usage: kazibee chrome-browser open <url> [--new-window] [--tab <tabId>]');
   }
 
-  const client = main(process.env as Env);
-  const result = await client.open(url, { newWindow: flags.includes('--new-window') });
+  const result = await client.open(url, { newWindow: flags.includes('--new-window'), tabId });
 
   return {
     ok: true,
@@ -36,8 +46,8 @@ export async function open(first?: string | string[], ...rest: string[]) {
   } as CommandResult<typeof result>;
 }
 
-export async function launch() {
-  const client = main(process.env as Env);
+export async function launch(first?: string | string[], ...rest: string[]) {
+  const { client } = createClient(normalizeArgs(first, rest));
   const result = await client.launchDaemon();
 
   return {
@@ -46,12 +56,42 @@ export async function launch() {
   } as CommandResult<typeof result>;
 }
 
-export async function daemon() {
-  return launch();
+export async function daemon(first?: string | string[], ...rest: string[]) {
+  return launch(first, ...rest);
+}
+
+export async function status(first?: string | string[], ...rest: string[]) {
+  const { client } = createClient(normalizeArgs(first, rest));
+  const result = await client.daemonStatus();
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function stop(first?: string | string[], ...rest: string[]) {
+  const { client } = createClient(normalizeArgs(first, rest));
+  const result = await client.stopDaemon();
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function restart(first?: string | string[], ...rest: string[]) {
+  const { client } = createClient(normalizeArgs(first, rest));
+  const result = await client.restartDaemon();
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
 }
 
-export async function tabs() {
-  const client = main(process.env as Env);
+export async function tabs(first?: string | string[], ...rest: string[]) {
+  const { client } = createClient(normalizeArgs(first, rest));
   const result = await client.listTabs();
 
   return {
@@ -60,16 +100,82 @@ export async function tabs() {
   } as CommandResult<typeof result>;
 }
 
+export async function tab(first?: string | string[], ...rest: string[]) {
+  const { client, args } = createClient(normalizeArgs(first, rest));
+  const [subcommand, value] = args;
+
+  let result: unknown;
+  if (subcommand === 'new') {
+    result = await client.newTab(value);
+  } else if (subcommand === 'close' && value) {
+    await client.closeTab(value);
+    result = { closed: value };
+  } else if (subcommand === 'activate' && value) {
+    result = await client.activateTab(value);
+  } else if (subcommand === 'current') {
+    result = await client.getCurrentTab();
+  } else {
+    throw new Error('Usage: kazibee chrome-browser tab <new [url] | close <tabId> | activate <tabId> | current>');
+  }
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
 export async function screenshot(first?: string | string[], ...rest: string[]) {
-  const args = normalizeArgs(first, rest);
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args: withoutTab } = takeOption(input, '--tab');
+  const { value: cellSize, args } = takeOption(withoutTab, '--cell-size');
   const [outputPath, start, end] = args;
   if (!outputPath) {
-    throw new Error('Usage: kazibee chrome-browser screenshot <outputPath> [startCell endCell]');
+    throw new Error(
+      'Usage: kazibee chrome-browser screenshot <outputPath> [startCell endCell] [--tab <tabId>] [--cell-size <px>]',
+    );
   }
 
-  const client = main(process.env as Env);
+  const wait = { tabId, cellSize: parseCellSize(cellSize) };
   const result =
-    start && end ? await client.saveGridScreenshot(outputPath, { start, end }) : await client.saveGridScreenshot(outputPath);
+    start && end
+      ? await client.saveGridScreenshot(outputPath, { start, end }, wait)
+      : await client.saveGridScreenshot(outputPath, undefined, wait);
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function marks(first?: string | string[], ...rest: string[]) {
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args: withoutTab } = takeOption(input, '--tab');
+  const { value: zoneRef, args: withoutZone } = takeOption(withoutTab, '--zone');
+  const { value: cellSize, args } = takeOption(withoutZone, '--cell-size');
+  const [outputPath] = args.filter((arg) => !arg.startsWith('--'));
+  if (!outputPath) {
+    throw new Error(
+      'Usage: kazibee chrome-browser marks <outputPath> [--zone <B2:D4>] [--page] [--tab <tabId>] [--cell-size <px>]',
+    );
+  }
+
+  let zone: { start: string; end: string } | undefined;
+  if (zoneRef) {
+    const [start, end = start] = zoneRef.split(':');
+    zone = { start, end };
+  }
+
+  const { imageBase64, ...marked } = await client.markedScreenshot({
+    zone,
+    coordinateSpace: args.includes('--page') ? 'page' : 'viewport',
+    tabId,
+    cellSize: parseCellSize(cellSize),
+  });
+  const image = Buffer.from(imageBase64, 'base64');
+  const resolvedPath = resolve(outputPath);
+  mkdirSync(dirname(resolvedPath), { recursive: true });
+  writeFileSync(resolvedPath, image);
+  const result = { outputPath: resolvedPath, sizeBytes: image.byteLength, ...marked };
 
   return {
     ok: true,
@@ -78,10 +184,16 @@ export async function screenshot(first?: string | string[], ...rest: string[]) {
 }
 
 export async function labels(first?: string | string[], ...rest: string[]) {
-  const args = normalizeArgs(first, rest);
-  const [model] = args;
-  const client = main(process.env as Env);
-  const result = await client.labels(model ? { model } : undefined);
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args: withoutTab } = takeOption(input, '--tab');
+  const { value: cellSize, args } = takeOption(withoutTab, '--cell-size');
+  const [model] = args.filter((arg) => arg !== '--no-cache');
+  const result = await client.labels({
+    model,
+    tabId,
+    bypassCache: args.includes('--no-cache'),
+    cellSize: parseCellSize(cellSize),
+  });
 
   return {
     ok: true,
@@ -90,12 +202,17 @@ export async function labels(first?: string | string[], ...rest: string[]) {
 }
 
 export async function find(first?: string | string[], ...rest: string[]) {
-  const args = normalizeArgs(first, rest);
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args } = takeOption(input, '--tab');
   if (!args.length) {
-    throw new Error('Usage: kazibee chrome-browser find <query> [--model <model>]');
+    throw new Error(
+      'Usage: kazibee chrome-browser find <query> [--model <model>] [--tab <tabId>] [--no-cache] [--accessibility | --marks]',
+    );
   }
 
   let model: string | undefined;
+  let bypassCache = false;
+  let findInput: 'screenshot' | 'accessibility' | 'marks' = 'screenshot';
   const queryParts: string[] = [];
 
   for (let i = 0; i < args.length; i += 1) {
@@ -105,16 +222,257 @@ export async function find(first?: string | string[], ...rest: string[]) {
       i += 1;
       continue;
     }
+    if (token === '--no-cache') {
+      bypassCache = true;
+      continue;
+    }
+    if (token === '--accessibility') {
+      findInput = 'accessibility';
+      continue;
+    }
+    if (token === '--marks') {
+      findInput = 'marks';
+      continue;
+    }
     queryParts.push(token);
   }
 
   const query = queryParts.join(' ').trim();
   if (!query) {
-    throw new Error('Usage: kazibee chrome-browser find <query> [--model <model>]');
+    throw new Error(
+      'Usage: kazibee chrome-browser find <query> [--model <model>] [--tab <tabId>] [--no-cache] [--accessibility | --marks]',
+    );
+  }
+
+  const result = await client.findInteractiveElement(query, { model, tabId, bypassCache, input: findInput });
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function extract(first?: string | string[], ...rest: string[]) {
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args: withoutTab } = takeOption(input, '--tab');
+  const { value: zoneRef, args: withoutZone } = takeOption(withoutTab, '--zone');
+  const { value: selector, args } = takeOption(withoutZone, '--selector');
+  const [kind] = args;
+  if (!kind || !['text', 'links', 'tables', 'forms', 'headings'].includes(kind)) {
+    throw new Error(
+      'Usage: kazibee chrome-browser extract <text|links|tables|forms|headings> [--zone <B2:D4>] [--selector <css>] [--tab <tabId>]',
+    );
+  }
+
+  let zone: { start: string; end: string } | undefined;
+  if (zoneRef) {
+    const [start, end = start] = zoneRef.split(':');
+    zone = { start, end };
+  }
+
+  const result = await client.extract({ kind: kind as ExtractKind, zone, selector, tabId });
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function run(first?: string | string[], ...rest: string[]) {
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args } = takeOption(input, '--tab');
+  const [stepsPath] = args.filter((arg) => !arg.startsWith('--'));
+  if (!stepsPath) {
+    throw new Error(
+      'Usage: kazibee chrome-browser run <steps.json> [--tab <tabId>] [--continue-on-error] [--screenshot-on-error]',
+    );
+  }
+
+  const actions = JSON.parse(readFileSync(stepsPath, 'utf8')) as unknown;
+  if (!Array.isArray(actions)) {
+    throw new Error(`${stepsPath} must contain a JSON array of execute actions.`);
+  }
+
+  const result = await client.executeSequence(actions as Action[], {
+    tabId,
+    stopOnError: !args.includes('--continue-on-error'),
+    screenshotOnError: args.includes('--screenshot-on-error'),
+  });
+
+  // Failed steps are reported in `result.steps`, so the command fails without throwing them away.
+  return {
+    ok: result.ok,
+    result,
+  };
+}
+
+export async function network(first?: string | string[], ...rest: string[]) {
+  const { client, args } = createClient(normalizeArgs(first, rest));
+  const [subcommand, rulesPath] = args;
+
+  let result: unknown;
+  if (subcommand === 'list') {
+    result = await client.getNetworkRules();
+  } else if (subcommand === 'clear') {
+    await client.clearNetworkRules();
+    result = [];
+  } else if (subcommand === 'set' && rulesPath) {
+    const rules = JSON.parse(readFileSync(rulesPath, 'utf8')) as unknown;
+    if (!Array.isArray(rules)) {
+      throw new Error(`${rulesPath} must contain a JSON array of network rules.`);
+    }
+    result = await client.setNetworkRules(rules as NetworkRule[]);
+  } else {
+    throw new Error('Usage: kazibee chrome-browser network <list|clear|set <rules.json>>');
+  }
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function har(first?: string | string[], ...rest: string[]) {
+  const { client, args } = createClient(normalizeArgs(first, rest));
+  const [subcommand, outputPath] = args;
+
+  let result: unknown;
+  if (subcommand === 'start' && outputPath) {
+    result = await client.startHarRecording(outputPath);
+  } else if (subcommand === 'stop') {
+    result = await client.stopHarRecording();
+  } else {
+    throw new Error('Usage: kazibee chrome-browser har <start <path.har>|stop>');
+  }
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function capture(first?: string | string[], ...rest: string[]) {
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args: withoutTab } = takeOption(input, '--tab');
+  const { value: duration, args } = takeOption(withoutTab, '--duration');
+  const [urlMatches] = args;
+  const durationMs = duration === undefined ? undefined : Number(duration);
+  if (durationMs !== undefined && (!Number.isFinite(durationMs) || durationMs <= 0)) {
+    throw new Error('Usage: kazibee chrome-browser capture [urlRegex] [--duration <ms>] [--tab <tabId>]');
   }
 
-  const client = main(process.env as Env);
-  const result = await client.findInteractiveElement(query, model ? { model } : undefined);
+  const result = await client.captureResponses({ urlMatches, durationMs, tabId });
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function logs(first?: string | string[], ...rest: string[]) {
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: tabId, args: withoutTab } = takeOption(input, '--tab');
+  const { value: level, args: withoutLevel } = takeOption(withoutTab, '--level');
+  const { value: sinceInput } = takeOption(withoutLevel, '--since');
+  const since = sinceInput === undefined ? undefined : Number(sinceInput);
+  const levels = ['debug', 'info', 'warning', 'error'];
+  if ((level !== undefined && !levels.includes(level)) || (since !== undefined && !Number.isFinite(since))) {
+    throw new Error(
+      'Usage: kazibee chrome-browser logs [--level <debug|info|warning|error>] [--since <epochMs>] [--tab <tabId>]',
+    );
+  }
+
+  const result = await client.getConsoleLogs({ tabId, since, level: level as ConsoleLogLevel | undefined });
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function state(first?: string | string[], ...rest: string[]) {
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: originList, args } = takeOption(input, '--origins');
+  const [subcommand, filePath] = args;
+  const origins = originList
+    ?.split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  let result: unknown;
+  if (subcommand === 'export' && filePath) {
+    const storageState = await client.exportState({ origins });
+    const resolvedPath = resolve(filePath);
+    mkdirSync(dirname(resolvedPath), { recursive: true });
+    writeFileSync(resolvedPath, `${JSON.stringify(storageState, null, 2)}\n`);
+    result = { outputPath: resolvedPath, cookies: storageState.cookies.length, origins: storageState.origins.length };
+  } else if (subcommand === 'import' && filePath) {
+    result = await client.importState(JSON.parse(readFileSync(filePath, 'utf8')) as StorageState);
+  } else if (subcommand === 'clear') {
+    result = await client.clearState({ origins });
+  } else {
+    throw new Error(
+      'Usage: kazibee chrome-browser state <export <state.json>|import <state.json>|clear> [--origins <origin,...>]',
+    );
+  }
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function credentials(first?: string | string[], ...rest: string[]) {
+  const { client, args: input } = createClient(normalizeArgs(first, rest));
+  const { value: origin, args } = takeOption(input, '--origin');
+  const [subcommand, name, fieldsPath] = args;
+
+  let result: unknown;
+  if (subcommand === 'list') {
+    result = await client.listCredentials();
+  } else if (subcommand === 'set' && name && fieldsPath && origin) {
+    // Fields come from a file so secrets stay out of shell history and process listings.
+    const fields = JSON.parse(readFileSync(fieldsPath, 'utf8')) as unknown;
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      throw new Error(`${fieldsPath} must contain a JSON object of credential fields.`);
+    }
+    result = await client.setCredential(name, fields as Record<string, string>, { origin });
+  } else if (subcommand === 'remove' && name) {
+    result = { removed: await client.removeCredential(name) };
+  } else {
+    throw new Error(
+      'Usage: kazibee chrome-browser credentials <list|set <name> <fields.json> --origin <url>|remove <name>>',
+    );
+  }
+
+  return {
+    ok: true,
+    result,
+  } as CommandResult<typeof result>;
+}
+
+export async function profiles(first?: string | string[], ...rest: string[]) {
+  const args = normalizeArgs(first, rest);
+  if (args[0] !== 'list') {
+    throw new Error('Usage: kazibee chrome-browser profiles list');
+  }
+
+  const env = process.env as Env;
+  const names = ['default', ...Object.keys(loadProfiles(env))];
+  const result = await Promise.all(
+    names.map(async (name) => {
+      const config = getAuthConfig({ ...env, CHROME_PROFILE: name === 'default' ? undefined : name });
+      const daemonStatus = await createChromeBrowserClient(config).daemonStatus();
+      return {
+        name,
+        port: config.remoteDebuggingPort,
+        userDataDir: config.userDataDir,
+        headless: config.headless,
+        alive: daemonStatus.running,
+        pid: daemonStatus.pid,
+      };
+    }),
+  );
 
   return {
     ok: true,
@@ -128,16 +486,65 @@ export async function help(): Promise<CommandHelp> {
     usage: [
       'kazibee chrome-browser launch',
       'kazibee chrome-browser daemon',
-      'kazibee chrome-browser open <url> [--new-window]',
+      'kazibee chrome-browser status',
+      'kazibee chrome-browser stop',
+      'kazibee chrome-browser restart',
+      'kazibee chrome-browser open <url> [--new-window] [--tab <tabId>]',
       'kazibee chrome-browser tabs',
-      'kazibee chrome-browser screenshot <outputPath> [startCell endCell]',
-      'kazibee chrome-browser labels [model]',
-      'kazibee chrome-browser find <query> [--model <model>]',
+      'kazibee chrome-browser tab new [url]',
+      'kazibee chrome-browser tab close <tabId>',
+      'kazibee chrome-browser tab activate <tabId>',
+      'kazibee chrome-browser tab current',
+      'kazibee chrome-browser screenshot <outputPath> [startCell endCell] [--tab <tabId>] [--cell-size <px>]',
+      'kazibee chrome-browser marks <outputPath> [--zone <B2:D4>] [--page] [--tab <tabId>] [--cell-size <px>]',
+      'kazibee chrome-browser labels [model] [--tab <tabId>] [--no-cache] [--cell-size <px>]',
+      'kazibee chrome-browser find <query> [--model <model>] [--tab <tabId>] [--no-cache] [--accessibility | --marks]',
+      'kazibee chrome-browser extract <text|links|tables|forms|headings> [--zone <B2:D4>] [--selector <css>] [--tab <tabId>]',
+      'kazibee chrome-browser run <steps.json> [--tab <tabId>] [--continue-on-error] [--screenshot-on-error]',
+      'kazibee chrome-browser network <list|clear|set <rules.json>>',
+      'kazibee chrome-browser har <start <path.har>|stop>',
+      'kazibee chrome-browser capture [urlRegex] [--duration <ms>] [--tab <tabId>]',
+      'kazibee chrome-browser logs [--level <debug|info|warning|error>] [--since <epochMs>] [--tab <tabId>]',
+      'kazibee chrome-browser state <export <state.json>|import <state.json>|clear> [--origins <origin,...>]',
+      'kazibee chrome-browser credentials <list|set <name> <fields.json> --origin <url>|remove <name>>',
+      'kazibee chrome-browser profiles list',
+      'Every command accepts --profile <name> to target a named profile from the profiles file (or set CHROME_PROFILE).',
       'All browser operations are CDP-backed; no non-CDP mode is supported.',
+      'Tab ids come from `kazibee chrome-browser tabs`; without --tab the current tab (or the active-looking tab) is used.',
     ],
   };
 }
 
+/** Strips `--profile <name>` from the arguments and builds a client for that profile. */
+function createClient(input: string[]): { client: ReturnType<typeof main>; args: string[] } {
+  const { value: profile, args } = takeOption(input, '--profile');
+  const env = process.env as Env;
+  return {
+    client: main(profile ? { ...env, CHROME_PROFILE: profile } : env),
+    args,
+  };
+}
+
+function takeOption(args: string[], name: string): { value?: string; args: string[] } {
+  const index = args.indexOf(name);
+  if (index < 0) return { args };
+
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`Missing value for ${name}.`);
+  }
+  return { value, args: [...args.slice(0, index), ...args.slice(index + 2)] };
+}
+
+function parseCellSize(value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid --cell-size: ${value}`);
+  }
+  return parsed;
+}
+
 function normalizeArgs(first?: string | string[], rest: string[] = []): string[] {
   if (Array.isArray(first)) return [...first, ...rest].filter(Boolean);
   if (typeof first === 'string') return [first, ...rest].filter(Boolean);
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { chmodSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readCredentialVault, writeCredentialVault, type CredentialVault } from './credential-vault';
+
+const vault: CredentialVault = {
+  credentials: { github: { origin: 'https://github.com', fields: { username: 'octocat', password: 's3cret-pass' } } },
+};
+
+let dir: string;
+let path: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'kazibee-vault-test-'));
+  path = join(dir, 'nested', 'credentials.vault');
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('credential vault', () => {
+  test('round-trips through an encrypted file', () => {
+    writeCredentialVault(path, 'passphrase', vault);
+    expect(readFileSync(path, 'utf8')).not.toContain('s3cret-pass');
+    expect(readCredentialVault(path, 'passphrase')).toEqual(vault);
+  });
+
+  test('rejects a wrong passphrase', () => {
+    writeCredentialVault(path, 'passphrase', vault);
+    expect(() => readCredentialVault(path, 'other')).toThrow('wrong CHROME_CREDENTIALS_PASSPHRASE');
+  });
+
+  test('reads a missing vault as empty', () => {
+    expect(readCredentialVault(path, 'passphrase')).toEqual({ credentials: {} });
+  });
+
+  test('keeps the file private, also when it already existed', () => {
+    writeCredentialVault(path, 'passphrase', vault);
+    chmodSync(path, 0o644);
+    writeCredentialVault(path, 'passphrase', vault);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+
+  test('reports a file that is not a vault', () => {
+    writeCredentialVault(path, 'passphrase', vault);
+    writeFileSync(path, 'not json');
+    expect(() => readCredentialVault(path, 'passphrase')).toThrow('Failed to parse credential vault');
+  });
+});
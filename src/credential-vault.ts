@@ -0,0 +1,68 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+/** One site's login fields, e.g. `{ username, password }`, pinned to the origin they may be filled on. */
+export interface CredentialEntry {
+  /** Required by `setCredential`; the bridge refuses to fill entries written without one. */
+  origin?: string;
+  fields: Record<string, string>;
+}
+
+export interface CredentialVault {
+  credentials: Record<string, CredentialEntry>;
+}
+
+/**
+ * On-disk envelope: AES-256-GCM over the vault JSON with a scrypt key. The bridge cannot import this
+ * module, so `readCredentialValue` in cdp-bridge.mjs has its own copy of the decrypt step below; change
+ * both together.
+ */
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function readCredentialVault(path: string, passphrase: string): CredentialVault {
+  if (!existsSync(path)) return { credentials: {} };
+
+  let file: VaultFile;
+  try {
+    file = JSON.parse(readFileSync(path, 'utf8')) as VaultFile;
+  } catch (error) {
+    throw new Error(`Failed to parse credential vault ${path}: ${String(error)}`);
+  }
+
+  try {
+    const key = scryptSync(passphrase, Buffer.from(file.salt, 'base64'), 32);
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    const vault = JSON.parse(plain.toString('utf8')) as Partial<CredentialVault>;
+    return { credentials: vault.credentials ?? {} };
+  } catch {
+    throw new Error(`Cannot decrypt credential vault ${path}: wrong CHROME_CREDENTIALS_PASSPHRASE or corrupted file.`);
+  }
+}
+
+export function writeCredentialVault(path: string, passphrase: string, vault: CredentialVault): void {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', scryptSync(passphrase, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(vault), 'utf8'), cipher.final()]);
+  const file: VaultFile = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(file), { mode: 0o600 });
+  // `mode` only applies when the file is created; tighten a vault that already existed too.
+  chmodSync(path, 0o600);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { cellLabel, parseCell, parseGridRef } from './grid';
+
+describe('cellLabel / parseCell', () => {
+  test('label single and multi-letter columns', () => {
+    expect(cellLabel(0, 0)).toBe('A1');
+    expect(cellLabel(25, 9)).toBe('Z10');
+    expect(cellLabel(26, 0)).toBe('AA1');
+    expect(cellLabel(701, 0)).toBe('ZZ1');
+    expect(cellLabel(702, 0)).toBe('AAA1');
+  });
+
+  test('round-trip every label', () => {
+    for (const col of [0, 1, 25, 26, 51, 52, 701, 702]) {
+      expect(parseCell(cellLabel(col, 4))).toEqual({ col, row: 4 });
+    }
+  });
+
+  test('accepts lower case and surrounding whitespace', () => {
+    expect(parseCell(' c4 ')).toEqual({ col: 2, row: 3 });
+  });
+
+  test('rejects malformed coordinates', () => {
+    expect(() => parseCell('4C')).toThrow('Invalid grid coordinate: 4C');
+    expect(() => parseCell('A0')).toThrow('Invalid row index in coordinate: A0');
+  });
+});
+
+describe('parseGridRef', () => {
+  test('parses single cells and ranges with either separator', () => {
+    expect(parseGridRef('C4')).toEqual({ minCol: 2, maxCol: 2, minRow: 3, maxRow: 3 });
+    expect(parseGridRef('B2:D4')).toEqual({ minCol: 1, maxCol: 3, minRow: 1, maxRow: 3 });
+    expect(parseGridRef('B2-D4')).toEqual(parseGridRef('B2:D4'));
+  });
+
+  test('normalizes reversed ranges', () => {
+    expect(parseGridRef('D4:B2')).toEqual(parseGridRef('B2:D4'));
+  });
+
+  test('rejects empty and three-part refs', () => {
+    expect(() => parseGridRef('')).toThrow('Invalid grid reference');
+    expect(() => parseGridRef('A1:B2:C3')).toThrow('Invalid grid reference');
+  });
+});
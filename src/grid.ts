@@ -0,0 +1,56 @@
+/** Zero-based column/row of one grid cell. */
+export interface GridCell {
+  col: number;
+  row: number;
+}
+
+/** Inclusive cell bounds of a grid ref such as `C4` or `B2:D4`. */
+export interface GridBounds {
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+}
+
+export function cellLabel(col: number, row: number): string {
+  let i = col;
+  let label = '';
+  while (i >= 0) {
+    label = String.fromCharCode(65 + (i % 26)) + label;
+    i = Math.floor(i / 26) - 1;
+  }
+  return `${label}${row + 1}`;
+}
+
+export function parseCell(input: string): GridCell {
+  const trimmed = String(input || '').trim().toUpperCase();
+  const match = /^([A-Z]+)(\d+)$/.exec(trimmed);
+  if (!match) throw new Error(`Invalid grid coordinate: ${input}`);
+
+  let col = 0;
+  for (let i = 0; i < match[1].length; i += 1) {
+    col = col * 26 + (match[1].charCodeAt(i) - 64);
+  }
+  const row = Number.parseInt(match[2], 10);
+  if (row <= 0) throw new Error(`Invalid row index in coordinate: ${input}`);
+
+  return { col: col - 1, row: row - 1 };
+}
+
+/** Parses `C4`, `B2:D4` or `B2-D4` into inclusive cell bounds. */
+export function parseGridRef(ref: string): GridBounds {
+  const parts = String(ref || '')
+    .split(/[:\-–]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (!parts.length || parts.length > 2) throw new Error(`Invalid grid reference: ${ref}`);
+
+  const start = parseCell(parts[0]);
+  const end = parseCell(parts[1] ?? parts[0]);
+  return {
+    minCol: Math.min(start.col, end.col),
+    maxCol: Math.max(start.col, end.col),
+    minRow: Math.min(start.row, end.row),
+    maxRow: Math.max(start.row, end.row),
+  };
+}
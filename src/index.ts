@@ -1,13 +1,67 @@
 import { getAuthConfig, type Env } from './auth';
 import { createChromeBrowserClient } from './chrome-client';
 
-export type { Env } from './auth';
+export type { Env, ProfileConfig } from './auth';
+export {
+  createFakeVisionProvider,
+  createGeminiVisionProvider,
+  createOpenAiCompatibleVisionProvider,
+} from './vision-provider';
 export type {
+  FakeVisionProvider,
+  FakeVisionResponses,
+  OpenAiCompatibleProviderOptions,
+  VisionProvider,
+  VisionProviderName,
+  VisionRequest,
+} from './vision-provider';
+export type {
+  AccessibilityNode,
+  AccessibilitySnapshot,
+  AccessibilitySnapshotOptions,
+  CapturedResponse,
+  CaptureResponsesOptions,
+  CaptureResponsesResult,
+  ConsoleLogEntry,
+  ConsoleLogLevel,
+  ConsoleLogsOptions,
+  ConsoleLogsResult,
   Action,
+  ActionData,
+  ActionResult,
+  ActionStepResult,
+  ActionStepStatus,
+  DaemonStatus,
+  ElementBox,
   ElementInfo,
   ExecutableStatus,
+  ExecuteOptions,
+  ExecuteSequenceOptions,
+  ExecuteSequenceResult,
+  ExtractedForm,
+  ExtractedFormField,
+  ExtractedHeading,
+  ExtractedLink,
+  ExtractedTable,
+  ExtractKind,
+  ExtractOptions,
+  ExtractResult,
+  FindAndClickOptions,
+  FindAndClickResult,
   FindInteractiveElementOptions,
   GridRange,
+  GridScreenshotOptions,
+  GridSizeOptions,
+  HarRecording,
+  CredentialInfo,
+  SetCredentialOptions,
+  StateChangeResult,
+  StateOriginsOptions,
+  StorageState,
+  StorageStateCookie,
+  StorageStateOrigin,
+  GridCellTarget,
+  CellOffset,
   LabelsOverviewOptions,
   ZoneLabelsOptions,
   ZoneLabelsResult,
@@ -16,17 +70,27 @@ export type {
   GridCoordinateSpace,
   NavigationWaitOptions,
   PageLoadState,
+  ResolveElementOptions,
+  ResolvedElement,
   LabelsOptions,
   LaunchOptions,
   LaunchResult,
+  NetworkRule,
+  ElementMark,
+  MarkedScreenshot,
+  MarkedScreenshotOptions,
+  SelectorTarget,
   SelectorWaitState,
+  StopDaemonResult,
   UiInteractiveElement,
   UiLabelsResult,
   UiLayoutRegion,
   UiOverviewRegion,
   UiOverviewResult,
   UiPointOfInterest,
+  UiVisualDiff,
   TabInfo,
+  TabTargetOptions,
   Zone,
   ZoneResult,
 } from './chrome-client';
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { labelsCacheKey, readLabelsCache, writeLabelsCache, type LabelsCacheSettings } from './labels-cache';
+
+const parts = {
+  screenshotBase64: Buffer.from('png-bytes').toString('base64'),
+  mode: 'full',
+  detailLevel: 'high',
+  model: 'gemini-2.5-pro',
+  provider: 'gemini',
+};
+
+let dir: string;
+let run = 0;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'kazibee-labels-cache-test-'));
+  run += 1;
+});
+
+afterEach(() => {
+  setSystemTime();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// The in-memory layer is process-wide, so every test uses keys of its own.
+function keyFor(name: string, overrides: Partial<typeof parts> = {}): string {
+  return labelsCacheKey({ ...parts, focus: `${name}-${run}`, ...overrides });
+}
+
+function settings(overrides: Partial<LabelsCacheSettings> = {}): LabelsCacheSettings {
+  return { mode: 'disk', dir, ttlMs: 60_000, maxEntries: 10, ...overrides };
+}
+
+describe('labelsCacheKey', () => {
+  test('is stable for equal parts and changes with every part', () => {
+    expect(labelsCacheKey(parts)).toBe(labelsCacheKey({ ...parts }));
+    expect(labelsCacheKey(parts)).not.toBe(labelsCacheKey({ ...parts, model: 'gemini-2.5-flash' }));
+    expect(labelsCacheKey(parts)).not.toBe(labelsCacheKey({ ...parts, provider: 'openai:http://a/v1' }));
+    expect(labelsCacheKey(parts)).not.toBe(labelsCacheKey({ ...parts, focus: 'search box' }));
+  });
+
+  test('ignores whitespace around the focus', () => {
+    expect(labelsCacheKey({ ...parts, focus: ' nav ' })).toBe(labelsCacheKey({ ...parts, focus: 'nav' }));
+  });
+});
+
+describe('readLabelsCache / writeLabelsCache', () => {
+  test('round-trips through disk', () => {
+    const key = keyFor('disk');
+    writeLabelsCache(settings(), key, { pageSummary: 'Login' });
+    expect(existsSync(join(dir, `${key}.json`))).toBe(true);
+    expect(readLabelsCache<{ pageSummary: string }>(settings(), key)).toEqual({ pageSummary: 'Login' });
+  });
+
+  test('memory mode writes nothing to disk', () => {
+    const key = keyFor('memory');
+    writeLabelsCache(settings({ mode: 'memory' }), key, { ok: true });
+    expect(readLabelsCache<{ ok: boolean }>(settings({ mode: 'memory' }), key)).toEqual({ ok: true });
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  test('off mode never stores or returns entries', () => {
+    const key = keyFor('off');
+    writeLabelsCache(settings({ mode: 'off' }), key, { ok: true });
+    expect(readLabelsCache(settings({ mode: 'off' }), key)).toBeUndefined();
+    expect(readLabelsCache(settings(), key)).toBeUndefined();
+  });
+
+  test('expires entries after the TTL', () => {
+    const key = keyFor('ttl');
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    writeLabelsCache(settings({ ttlMs: 1_000 }), key, { ok: true });
+    setSystemTime(new Date('2026-01-01T00:00:02Z'));
+    expect(readLabelsCache(settings({ ttlMs: 1_000 }), key)).toBeUndefined();
+  });
+
+  test('prunes the disk cache to maxEntries', () => {
+    for (let i = 0; i < 5; i += 1) {
+      writeLabelsCache(settings({ maxEntries: 3 }), keyFor(`prune-${i}`), { i });
+    }
+    expect(readdirSync(dir)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,102 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+export type LabelsCacheMode = 'disk' | 'memory' | 'off';
+
+export interface LabelsCacheSettings {
+  mode: LabelsCacheMode;
+  /** Directory for on-disk entries (`disk` mode only). */
+  dir: string;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+/** Everything that changes a labels answer; two calls with equal parts can share one result. */
+export interface LabelsCacheKeyParts {
+  screenshotBase64: string;
+  mode: string;
+  detailLevel?: string;
+  focus?: string;
+  model: string;
+  provider: string;
+}
+
+interface CacheEntry {
+  storedAt: number;
+  value: unknown;
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+
+export function labelsCacheKey(parts: LabelsCacheKeyParts): string {
+  const hash = createHash('sha256');
+  hash.update(Buffer.from(parts.screenshotBase64, 'base64'));
+  hash.update(
+    JSON.stringify([parts.mode, parts.detailLevel ?? '', parts.focus?.trim() ?? '', parts.model, parts.provider]),
+  );
+  return hash.digest('hex');
+}
+
+export function readLabelsCache<T>(settings: LabelsCacheSettings, key: string): T | undefined {
+  if (settings.mode === 'off') return undefined;
+
+  const now = Date.now();
+  const cached = memoryCache.get(key);
+  if (cached) {
+    if (now - cached.storedAt <= settings.ttlMs) return cached.value as T;
+    memoryCache.delete(key);
+  }
+  if (settings.mode !== 'disk') return undefined;
+
+  const path = join(settings.dir, `${key}.json`);
+  if (!existsSync(path)) return undefined;
+  try {
+    const entry = JSON.parse(readFileSync(path, 'utf8')) as CacheEntry;
+    if (now - Number(entry.storedAt) > settings.ttlMs) {
+      rmSync(path, { force: true });
+      return undefined;
+    }
+    memoryCache.set(key, entry);
+    return entry.value as T;
+  } catch {
+    rmSync(path, { force: true });
+    return undefined;
+  }
+}
+
+export function writeLabelsCache(settings: LabelsCacheSettings, key: string, value: unknown): void {
+  if (settings.mode === 'off') return;
+
+  const entry: CacheEntry = { storedAt: Date.now(), value };
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  while (memoryCache.size > settings.maxEntries) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest === undefined) break;
+    memoryCache.delete(oldest);
+  }
+  if (settings.mode !== 'disk') return;
+
+  mkdirSync(settings.dir, { recursive: true });
+  writeFileSync(join(settings.dir, `${key}.json`), JSON.stringify(entry));
+  pruneDiskCache(settings);
+}
+
+/** Drops expired entries, then the oldest ones until the directory is within `maxEntries`. */
+function pruneDiskCache(settings: LabelsCacheSettings): void {
+  const now = Date.now();
+  const files = readdirSync(settings.dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => {
+      const path = join(settings.dir, name);
+      return { path, mtimeMs: statSync(path).mtimeMs };
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  files.forEach((file, index) => {
+    if (index >= settings.maxEntries || now - file.mtimeMs > settings.ttlMs) {
+      rmSync(file.path, { force: true });
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { getAuthConfig } from './auth';
+import { createFakeVisionProvider, resolveVisionProvider } from './vision-provider';
+
+const request = { model: 'fake-vision', prompt: 'describe', temperature: 0 };
+
+describe('createFakeVisionProvider', () => {
+  test('answers from a queue and repeats the last response', async () => {
+    const provider = createFakeVisionProvider(['{"a":1}', '{"b":2}']);
+    expect(await provider.generate(request)).toBe('{"a":1}');
+    expect(await provider.generate(request)).toBe('{"b":2}');
+    expect(await provider.generate(request)).toBe('{"b":2}');
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  test('passes each request to a handler', async () => {
+    const provider = createFakeVisionProvider((req) => JSON.stringify({ prompt: req.prompt }));
+    expect(await provider.generate(request)).toBe('{"prompt":"describe"}');
+  });
+
+  test('fails when the queue is empty', async () => {
+    await expect(createFakeVisionProvider([]).generate(request)).rejects.toThrow('no responses left');
+  });
+});
+
+describe('resolveVisionProvider', () => {
+  test('prefers an explicit provider instance', () => {
+    const fake = createFakeVisionProvider('{}');
+    expect(resolveVisionProvider(getAuthConfig({}), fake, 'labels')).toBe(fake);
+  });
+
+  test('builds the OpenAI-compatible provider from the environment', () => {
+    const config = getAuthConfig({ VISION_PROVIDER: 'openai', OPENAI_API_BASE: 'http://127.0.0.1:11434/v1' });
+    expect(resolveVisionProvider(config, undefined, 'labels').name).toBe('openai');
+  });
+
+  test('requires a Gemini key for the default provider', () => {
+    expect(() => resolveVisionProvider(getAuthConfig({}), undefined, 'labels')).toThrow('Missing GEMINI_API_KEY');
+  });
+
+  test('rejects unknown provider names', () => {
+    expect(() => getAuthConfig({ VISION_PROVIDER: 'ollama' })).toThrow('Unknown VISION_PROVIDER "ollama"');
+    expect(() => getAuthConfig({ VISION_PROVIDER: 'open-ai' })).toThrow('Unknown VISION_PROVIDER');
+    expect(() => resolveVisionProvider(getAuthConfig({}), 'claude' as never, 'labels')).toThrow(
+      'Unknown vision provider "claude"',
+    );
+  });
+});
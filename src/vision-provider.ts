@@ -0,0 +1,230 @@
+import { randomUUID } from 'node:crypto';
+import type { AuthConfig } from './auth';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro';
+const DEFAULT_OPENAI_MODEL = 'llama3.2-vision';
+const VISION_REQUEST_TIMEOUT_MS = 90_000;
+
+export type VisionProviderName = 'gemini' | 'openai';
+
+/** One prompt (plus optional PNG screenshot) sent to a vision model that must answer with JSON text. */
+export interface VisionRequest {
+  model: string;
+  prompt: string;
+  imageBase64?: string;
+  temperature: number;
+  requestTimeoutMs?: number;
+}
+
+/** A vision-model backend used by `labels`, `labelsOverview`, `labelsInRange` and `findInteractiveElement`. */
+export interface VisionProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  /** Separates providers that share a `name` in the labels cache, e.g. two endpoints; defaults to `name`. */
+  readonly cacheIdentity?: string;
+  /** Returns the model's raw text answer; callers parse the JSON themselves. */
+  generate(request: VisionRequest): Promise<string>;
+}
+
+export interface OpenAiCompatibleProviderOptions {
+  /** Base URL that serves `/chat/completions`, e.g. `http://127.0.0.1:11434/v1` for Ollama. */
+  apiBase: string;
+  apiKey?: string;
+  defaultModel?: string;
+}
+
+/** Canned answers for `createFakeVisionProvider`: a fixed text, a queue of texts (the last one repeats), or a handler. */
+export type FakeVisionResponses = string | string[] | ((request: VisionRequest) => string | Promise<string>);
+
+export interface FakeVisionProvider extends VisionProvider {
+  readonly requests: VisionRequest[];
+}
+
+interface GeminiPart {
+  text?: string;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: GeminiPart[];
+    };
+  }>;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+export function createGeminiVisionProvider(apiKey: string): VisionProvider {
+  return {
+    name: 'gemini',
+    defaultModel: DEFAULT_GEMINI_MODEL,
+    generate: async (request: VisionRequest): Promise<string> => {
+      const url = `${GEMINI_API_BASE}/models/${encodeURIComponent(request.model)}:generateContent?key=${encodeURIComponent(apiKey)}`;
+      const parts: Array<Record<string, unknown>> = [{ text: request.prompt }];
+      if (request.imageBase64) {
+        parts.push({ inlineData: { mimeType: 'image/png', data: request.imageBase64 } });
+      }
+
+      const body = {
+        contents: [{ parts }],
+        generationConfig: {
+          temperature: request.temperature,
+          responseMimeType: 'application/json',
+        },
+      };
+      const data = (await postJson('Gemini', url, {}, body, request.requestTimeoutMs)) as GeminiResponse;
+
+      const texts = (data.candidates ?? [])
+        .flatMap((candidate) => candidate.content?.parts ?? [])
+        .map((part) => part.text?.trim() || '')
+        .filter(Boolean);
+      if (!texts.length) {
+        throw new Error(`Gemini returned no text content: ${JSON.stringify(data)}`);
+      }
+      return texts.join('\n');
+    },
+  };
+}
+
+/** Chat-completions provider for OpenAI-compatible servers such as vLLM or Ollama. */
+export function createOpenAiCompatibleVisionProvider(options: OpenAiCompatibleProviderOptions): VisionProvider {
+  const apiBase = options.apiBase.replace(/\/$/, '');
+  return {
+    name: 'openai',
+    defaultModel: options.defaultModel || DEFAULT_OPENAI_MODEL,
+    cacheIdentity: `openai:${apiBase}`,
+    generate: async (request: VisionRequest): Promise<string> => {
+      const content: Array<Record<string, unknown>> = [{ type: 'text', text: request.prompt }];
+      if (request.imageBase64) {
+        content.push({ type: 'image_url', image_url: { url: `data:image/png;base64,${request.imageBase64}` } });
+      }
+
+      const headers: Record<string, string> = options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {};
+      const body = {
+        model: request.model,
+        messages: [{ role: 'user', content }],
+        temperature: request.temperature,
+        response_format: { type: 'json_object' },
+      };
+      const data = (await postJson(
+        'OpenAI-compatible provider',
+        `${apiBase}/chat/completions`,
+        headers,
+        body,
+        request.requestTimeoutMs,
+      )) as ChatCompletionResponse;
+
+      const text = (data.choices ?? [])
+        .map((choice) => choice.message?.content?.trim() || '')
+        .filter(Boolean)
+        .join('\n');
+      if (!text) {
+        throw new Error(`OpenAI-compatible provider returned no text content: ${JSON.stringify(data)}`);
+      }
+      return text;
+    },
+  };
+}
+
+/** In-process provider that answers from canned responses and records every request; meant for offline tests. */
+export function createFakeVisionProvider(responses: FakeVisionResponses): FakeVisionProvider {
+  const requests: VisionRequest[] = [];
+  const queue = Array.isArray(responses) ? [...responses] : [];
+  return {
+    name: 'fake',
+    defaultModel: 'fake-vision',
+    // Every fake answers differently, so cached results must never cross instances (or test runs).
+    cacheIdentity: `fake:${randomUUID()}`,
+    requests,
+    generate: async (request: VisionRequest): Promise<string> => {
+      requests.push(request);
+      if (typeof responses === 'function') return responses(request);
+      if (typeof responses === 'string') return responses;
+      const next = queue.length > 1 ? queue.shift() : queue[0];
+      if (next === undefined) {
+        throw new Error('Fake vision provider has no responses left.');
+      }
+      return next;
+    },
+  };
+}
+
+/**
+ * Picks the provider for one call: an explicit provider instance wins, then a provider name,
+ * then `VISION_PROVIDER` from the environment. `caller` names the API in configuration errors.
+ */
+export function resolveVisionProvider(
+  config: AuthConfig,
+  selection: VisionProviderName | VisionProvider | undefined,
+  caller: string,
+): VisionProvider {
+  if (selection && typeof selection === 'object') return selection;
+
+  const name = selection ?? config.visionProvider;
+  if (name !== 'gemini' && name !== 'openai') {
+    throw new Error(`Unknown vision provider "${String(name)}" for ${caller}() (expected "gemini" or "openai").`);
+  }
+  if (name === 'openai') {
+    return createOpenAiCompatibleVisionProvider({
+      apiBase: config.openaiApiBase,
+      apiKey: config.openaiApiKey,
+    });
+  }
+
+  if (!config.geminiApiKey) {
+    throw new Error(`Missing GEMINI_API_KEY in environment. ${caller}() requires Gemini.`);
+  }
+  return createGeminiVisionProvider(config.geminiApiKey);
+}
+
+async function postJson(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  requestTimeoutMs?: number,
+): Promise<unknown> {
+  const timeoutMs = normalizeTimeoutMs(requestTimeoutMs, VISION_REQUEST_TIMEOUT_MS);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    const json = (await res.json()) as unknown;
+    if (!res.ok) {
+      throw new Error(`${label} API error ${res.status}: ${JSON.stringify(json)}`);
+    }
+    return json;
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new Error(`${label} request timed out after ${timeoutMs}ms.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function normalizeTimeoutMs(value: unknown, fallbackMs: number): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallbackMs;
+  return parsed;
+}
+
+function isAbortError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const candidate = error as { name?: string };
+  return candidate.name === 'AbortError';
+}
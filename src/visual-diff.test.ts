@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync, utimesSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import {
+  computeVisualSignature,
+  diffVisualSignatures,
+  readVisualSnapshot,
+  writeVisualSnapshot,
+  type GridGeometry,
+} from './visual-diff';
+
+const grid: GridGeometry = { cellSize: 100, labelMargin: 0, cols: 2, rows: 2, colOffset: 0, rowOffset: 0 };
+const limits = { ttlMs: 60_000, maxEntries: 10 };
+
+/** A 200x200 white screenshot, optionally with one black square at (left, top). */
+async function screenshot(square?: { left: number; top: number }): Promise<Buffer> {
+  const base = sharp({ create: { width: 200, height: 200, channels: 3, background: 'white' } });
+  if (!square) return base.png().toBuffer();
+  const black = await sharp({ create: { width: 100, height: 100, channels: 3, background: 'black' } })
+    .png()
+    .toBuffer();
+  return base.composite([{ input: black, ...square }]).png().toBuffer();
+}
+
+describe('diffVisualSignatures', () => {
+  test('reports no change for identical screenshots', async () => {
+    const signature = await computeVisualSignature(await screenshot(), grid);
+    expect(diffVisualSignatures(signature, signature)).toEqual({ changedFraction: 0, changedCells: [] });
+  });
+
+  test('finds the changed cell and its range', async () => {
+    const before = await computeVisualSignature(await screenshot(), grid);
+    const after = await computeVisualSignature(await screenshot({ left: 100, top: 100 }), grid);
+    expect(diffVisualSignatures(before, after)).toEqual({
+      changedFraction: 0.25,
+      changedCells: ['B2'],
+      dirtyRange: { start: 'B2', end: 'B2' },
+    });
+  });
+
+  test('labels cells in the grid space of the screenshot', async () => {
+    const offset = { ...grid, colOffset: 2, rowOffset: 3 };
+    const before = await computeVisualSignature(await screenshot(), offset);
+    const after = await computeVisualSignature(await screenshot({ left: 0, top: 0 }), offset);
+    expect(diffVisualSignatures(before, after).changedCells).toEqual(['C4']);
+  });
+
+  test('counts a different grid layout as a full change', async () => {
+    const before = await computeVisualSignature(await screenshot(), grid);
+    const after = await computeVisualSignature(await screenshot(), { ...grid, rowOffset: 1 });
+    const diff = diffVisualSignatures(before, after);
+    expect(diff.changedFraction).toBe(1);
+    expect(diff.dirtyRange).toEqual({ start: 'A2', end: 'B3' });
+  });
+});
+
+describe('readVisualSnapshot / writeVisualSnapshot', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'kazibee-visual-state-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('round-trips a snapshot by key', async () => {
+    const signature = await computeVisualSignature(await screenshot(), grid);
+    writeVisualSnapshot(dir, 'tab-1', { signature, result: { pageSummary: 'Login' } }, limits);
+    expect(readVisualSnapshot(dir, 'tab-1', limits)).toEqual({ signature, result: { pageSummary: 'Login' } });
+    expect(readVisualSnapshot(dir, 'tab-2', limits)).toBeUndefined();
+  });
+
+  test('drops snapshots older than the TTL', async () => {
+    const signature = await computeVisualSignature(await screenshot(), grid);
+    writeVisualSnapshot(dir, 'tab-1', { signature, result: {} }, limits);
+    const [file] = readdirSync(dir);
+    const old = new Date(Date.now() - 120_000);
+    utimesSync(join(dir, file), old, old);
+
+    expect(readVisualSnapshot(dir, 'tab-1', limits)).toBeUndefined();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  test('keeps at most maxEntries snapshots', async () => {
+    const signature = await computeVisualSignature(await screenshot(), grid);
+    for (let i = 0; i < 5; i += 1) {
+      writeVisualSnapshot(dir, `tab-${i}`, { signature, result: { i } }, { ...limits, maxEntries: 3 });
+    }
+    expect(readdirSync(dir)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,193 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import { cellLabel } from './grid';
+
+/** Thumbnail edge (in pixels) each grid cell is reduced to before comparison. */
+const CELL_THUMB_SIZE = 8;
+/** Mean absolute greyscale difference (0-255) above which a cell counts as changed. */
+const CELL_DIFF_THRESHOLD = 8;
+
+/** Grid layout of a grid screenshot, as reported by the bridge. */
+export interface GridGeometry {
+  cellSize: number;
+  labelMargin: number;
+  cols: number;
+  rows: number;
+  colOffset: number;
+  rowOffset: number;
+  /** False when the screenshot was rendered without per-cell labels (margin labels only). */
+  cellLabels?: boolean;
+}
+
+/** Per-cell greyscale thumbnails of one grid screenshot. */
+export interface VisualSignature {
+  cols: number;
+  rows: number;
+  colOffset: number;
+  rowOffset: number;
+  /** Base64 of `cols * rows` thumbnails, row-major, `CELL_THUMB_SIZE^2` bytes each. */
+  cells: string;
+}
+
+export interface VisualDiff {
+  /** Share of grid cells (0..1) that changed since the last analyzed screenshot. */
+  changedFraction: number;
+  changedCells: string[];
+  /** Smallest grid range covering every changed cell, in the grid space of the compared screenshots. */
+  dirtyRange?: { start: string; end: string };
+}
+
+/** Bounds for the snapshot directory; the client reuses the labels cache TTL and entry count. */
+export interface VisualSnapshotLimits {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+/** The last analyzed screenshot for one tab + analysis kind, with the result it produced. */
+export interface VisualSnapshot<T> {
+  signature: VisualSignature;
+  result: T;
+}
+
+export async function computeVisualSignature(image: Buffer, grid: GridGeometry): Promise<VisualSignature> {
+  const metadata = await sharp(image).metadata();
+  const width = Math.max(1, (metadata.width || 0) - grid.labelMargin);
+  const height = Math.max(1, (metadata.height || 0) - grid.labelMargin);
+  const paddedWidth = grid.cols * grid.cellSize;
+  const paddedHeight = grid.rows * grid.cellSize;
+
+  // Pad the content to whole cells first so every cell maps onto an exact thumbnail block.
+  const padded = await sharp(image)
+    .extract({ left: grid.labelMargin, top: grid.labelMargin, width, height })
+    .extend({
+      right: Math.max(0, paddedWidth - width),
+      bottom: Math.max(0, paddedHeight - height),
+      background: 'white',
+    })
+    .png()
+    .toBuffer();
+  const thumbs = await sharp(padded)
+    .resize(grid.cols * CELL_THUMB_SIZE, grid.rows * CELL_THUMB_SIZE, { fit: 'fill' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const rowStride = thumbs.info.width * thumbs.info.channels;
+  const cellBytes = CELL_THUMB_SIZE * CELL_THUMB_SIZE;
+  const cells = Buffer.alloc(grid.cols * grid.rows * cellBytes);
+  for (let row = 0; row < grid.rows; row += 1) {
+    for (let col = 0; col < grid.cols; col += 1) {
+      const cellStart = (row * grid.cols + col) * cellBytes;
+      for (let y = 0; y < CELL_THUMB_SIZE; y += 1) {
+        for (let x = 0; x < CELL_THUMB_SIZE; x += 1) {
+          const source = (row * CELL_THUMB_SIZE + y) * rowStride + (col * CELL_THUMB_SIZE + x) * thumbs.info.channels;
+          cells[cellStart + y * CELL_THUMB_SIZE + x] = thumbs.data[source];
+        }
+      }
+    }
+  }
+
+  return {
+    cols: grid.cols,
+    rows: grid.rows,
+    colOffset: grid.colOffset,
+    rowOffset: grid.rowOffset,
+    cells: cells.toString('base64'),
+  };
+}
+
+/** Compares two signatures cell by cell; a different grid layout counts as a full change. */
+export function diffVisualSignatures(previous: VisualSignature, next: VisualSignature): VisualDiff {
+  const sameLayout =
+    previous.cols === next.cols &&
+    previous.rows === next.rows &&
+    previous.colOffset === next.colOffset &&
+    previous.rowOffset === next.rowOffset;
+  const before = Buffer.from(previous.cells, 'base64');
+  const after = Buffer.from(next.cells, 'base64');
+  const cellBytes = CELL_THUMB_SIZE * CELL_THUMB_SIZE;
+
+  const changed: Array<{ col: number; row: number }> = [];
+  for (let row = 0; row < next.rows; row += 1) {
+    for (let col = 0; col < next.cols; col += 1) {
+      const offset = (row * next.cols + col) * cellBytes;
+      let total = 0;
+      if (sameLayout) {
+        for (let i = 0; i < cellBytes; i += 1) {
+          total += Math.abs(before[offset + i] - after[offset + i]);
+        }
+      }
+      if (!sameLayout || total / cellBytes > CELL_DIFF_THRESHOLD) {
+        changed.push({ col: next.colOffset + col, row: next.rowOffset + row });
+      }
+    }
+  }
+
+  const totalCells = Math.max(1, next.cols * next.rows);
+  if (!changed.length) {
+    return { changedFraction: 0, changedCells: [] };
+  }
+
+  const minCol = Math.min(...changed.map((cell) => cell.col));
+  const maxCol = Math.max(...changed.map((cell) => cell.col));
+  const minRow = Math.min(...changed.map((cell) => cell.row));
+  const maxRow = Math.max(...changed.map((cell) => cell.row));
+  return {
+    changedFraction: changed.length / totalCells,
+    changedCells: changed.map((cell) => cellLabel(cell.col, cell.row)),
+    dirtyRange: { start: cellLabel(minCol, minRow), end: cellLabel(maxCol, maxRow) },
+  };
+}
+
+export function readVisualSnapshot<T>(
+  dir: string,
+  key: string,
+  limits: VisualSnapshotLimits,
+): VisualSnapshot<T> | undefined {
+  const path = join(dir, `${snapshotFileName(key)}.json`);
+  if (!existsSync(path)) return undefined;
+  if (Date.now() - statSync(path).mtimeMs > limits.ttlMs) {
+    rmSync(path, { force: true });
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as VisualSnapshot<T>;
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeVisualSnapshot<T>(
+  dir: string,
+  key: string,
+  snapshot: VisualSnapshot<T>,
+  limits: VisualSnapshotLimits,
+): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, `${snapshotFileName(key)}.json`), JSON.stringify(snapshot));
+  pruneVisualSnapshots(dir, limits);
+}
+
+/** Drops expired snapshots, then the oldest ones until the directory is within `maxEntries`. */
+function pruneVisualSnapshots(dir: string, limits: VisualSnapshotLimits): void {
+  const now = Date.now();
+  const files = readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => {
+      const path = join(dir, name);
+      return { path, mtimeMs: statSync(path).mtimeMs };
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  files.forEach((file, index) => {
+    if (index >= limits.maxEntries || now - file.mtimeMs > limits.ttlMs) {
+      rmSync(file.path, { force: true });
+    }
+  });
+}
+
+function snapshotFileName(key: string): string {
+  return createHash('sha1').update(key).digest('hex');
+}